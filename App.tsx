@@ -1,12 +1,58 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, Bell, Wand2, Layers, Cpu, Cuboid, PanelRightOpen, PanelRightClose, Upload, Image as ImageIcon, MousePointer, Square, Pentagon, Target } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Search, Bell, Wand2, Layers, Cpu, Cuboid, PanelRightOpen, PanelRightClose, Upload, Download, FileJson, FolderOpen, Image as ImageIcon, MousePointer, Square, Pentagon, Target, Grid3x3, Brush, Eraser, Magnet, ClipboardCheck, X } from 'lucide-react';
 import { ConceptLedger } from './components/ConceptLedger';
 import { SemanticCanvas } from './components/SemanticCanvas';
-import { Timeline } from './components/Timeline';
+import { PropagationProgress, Timeline } from './components/Timeline';
 import { SpatialAnalysisPanel } from './components/SpatialAnalysisPanel';
-import { Annotation, Concept, ModelType, ToolType } from './types';
-import { detectObjects, mockSAM3Detect } from './services/geminiService';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { DatasetGallery, ImageProgress } from './components/DatasetGallery';
+import { InstanceCounts } from './components/ConceptLedger';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ReviewBar } from './components/ReviewBar';
+import { DuplicateReview } from './components/DuplicateReview';
+import { Toast, ToastStack, ToastTone } from './components/Toasts';
+import { BackendSettings } from './components/BackendSettings';
+import { Annotation, Concept, DatasetImage, ModelType, PointPrompt, ToolType } from './types';
+import { DetectionImage, getDetectionBackend, HealthStatus } from './services/detectionBackend';
+import { isCancelled } from './services/detectionError';
+import { DetectionCacheKey, encodeOnce, EncodedImage, getCachedDetections, putCachedDetections } from './services/detectionCache';
+import { importFromCOCO } from './services/cocoService';
+import { importFromCVATVideo } from './services/cvatService';
+import { getTracker, TrackerId } from './services/trackingService';
+import { DEFAULT_PREPROCESS, detectInRegions, DetectionRegion, loadImageElement, needsPreprocessing, planDetectionRegions, preprocessKey, PreprocessSettings } from './services/preprocessing';
+import { getExporter, getExporters } from './services/exporters';
+import { deleteProject, listProjects, loadProject, ProjectSummary, saveImageBlob, saveProject } from './services/projectStore';
+import { COLORS, parseConceptList, toConceptId } from './utils/concepts';
+import { downloadFile, readFileAsText } from './utils/download';
+import { collectDroppedFiles, compareFileNames, isImageFile, isVideoFile, loadImageDimensions, loadVideoMetadata } from './utils/files';
+import { createZip } from './utils/zip';
+import { boxToMask, maskToBox, maskToPolygon, polygonToMask } from './utils/mask';
+import { stepBrushRadius } from './utils/brush';
+import { assignTrackIds, ensureTrackIds, nextTrackId, reassignTrackId, renumberTrackIds, swapTrackIds } from './utils/identity';
+import { applyPropagation, DEFAULT_FPS, getFps, getFrameCount, isVideo, mergeTracks, propagationFrames, removeKeyframe, resolveAtFrame, splitTrack, startTrack, writeAtFrame } from './utils/keyframes';
+import { CommandKind, createCommand, EMPTY_HISTORY, HistoryState, jumpToCommand, LabelDocument, recordCommand, redoCommand, undoCommand } from './utils/history';
+import { dedupeDetections, DEFAULT_DEDUPE, DedupeSettings, DuplicatePair, duplicatePairKey, findDuplicatePairs } from './utils/duplicates';
+import { fuseAnnotations } from './utils/geometry';
+import { FULL_REGION } from './utils/tiling';
+import { confidenceHistogram, ConfidenceThresholds, DEFAULT_THRESHOLDS, isBelowThreshold } from './utils/thresholds';
+
+// Copies the frame currently shown by a video element; encoding is left to the caller
+const captureVideoFrame = (video: HTMLVideoElement): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0);
+  return canvas;
+};
+
+// Natural size of an image, or size, duration and frame count of a video
+const loadMediaSize = async (media: DatasetImage): Promise<Partial<DatasetImage>> => {
+  if (!isVideo(media)) return loadImageDimensions(media.src);
+  const { width, height, duration } = await loadVideoMetadata(media.src);
+  const fps = getFps(media);
+  return { width, height, duration, fps, frameCount: getFrameCount({ ...media, duration, fps }) };
+};
 
 // Helper to fetch image blob and convert to base64
 const getBase64FromUrl = async (url: string): Promise<string> => {
@@ -23,12 +69,18 @@ const getBase64FromUrl = async (url: string): Promise<string> => {
   });
 };
 
-const COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b', '#3b82f6', '#8b5cf6', '#14b8a6'];
 const DEMO_IMAGE = "https://images.unsplash.com/photo-1566228000166-58d23131593d?q=80&w=2070&auto=format&fit=crop"; 
+const DEMO_DATASET: DatasetImage[] = [{ id: 'demo', src: DEMO_IMAGE, fileName: 'demo.jpg', width: 0, height: 0 }];
 
 export default function App() {
   const [activeModel, setActiveModel] = useState<ModelType>(ModelType.SAM3);
-  const [imageSrc, setImageSrc] = useState<string>(DEMO_IMAGE);
+  const [backendHealth, setBackendHealth] = useState<HealthStatus | null>(null);
+  const backend = getDetectionBackend(activeModel);
+  // Dataset: images each own a set of annotations (via imageId), concepts are shared
+  const [images, setImages] = useState<DatasetImage[]>(DEMO_DATASET);
+  const [activeImageId, setActiveImageId] = useState<string>(DEMO_DATASET[0].id);
+  const activeImage = images.find(img => img.id === activeImageId) || images[0];
+  const imageSrc = activeImage.src;
   const [inputValue, setInputValue] = useState('');
   
   const [concepts, setConcepts] = useState<Concept[]>([]);
@@ -36,28 +88,384 @@ export default function App() {
   
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const detectionAbortRef = useRef<AbortController | null>(null);
+  const [detectionProgress, setDetectionProgress] = useState<{ done: number; total: number } | null>(null);
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(DEFAULT_PREPROCESS);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // Transient notices, e.g. why a detection failed
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const toastIdRef = useRef(0);
+  const dismissToast = (id: number) => setToasts(prev => prev.filter(t => t.id !== id));
+  const pushToast = (tone: ToastTone, title: string, message?: string) => {
+      const id = ++toastIdRef.current;
+      setToasts(prev => [...prev.slice(-3), { id, tone, title, message }]);
+      setTimeout(() => dismissToast(id), tone === 'error' ? 8000 : 5000);
+  };
+
+  // Undo/redo: every annotation or concept mutation goes through runCommand
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const documentRef = useRef<LabelDocument>({ annotations, concepts });
+  documentRef.current = { annotations, concepts };
+
+  const applyDocument = (doc: LabelDocument) => {
+      documentRef.current = doc;
+      setAnnotations(doc.annotations);
+      setConcepts(doc.concepts);
+  };
+
+  const runCommand = (kind: CommandKind, label: string, update: (doc: LabelDocument) => LabelDocument) => {
+      const before = documentRef.current;
+      const after = update(before);
+      if (after.annotations === before.annotations && after.concepts === before.concepts) return;
+      applyDocument(after);
+      setHistory(prev => recordCommand(prev, createCommand(kind, label, before, after)));
+  };
+
+  // Loading a project, dataset or import starts a fresh history
+  const resetDocument = (doc: LabelDocument) => {
+      applyDocument(doc);
+      setHistory(EMPTY_HISTORY);
+  };
+
+  const undo = () => {
+      const result = undoCommand(history);
+      if (!result) return;
+      applyDocument(result.document);
+      setHistory(result.history);
+  };
+
+  const redo = () => {
+      const result = redoCommand(history);
+      if (!result) return;
+      applyDocument(result.document);
+      setHistory(result.history);
+  };
+
+  const jumpToHistory = (commandId: number) => {
+      const result = jumpToCommand(history, commandId);
+      if (!result) return;
+      applyDocument(result.document);
+      setHistory(result.history);
+  };
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+          if (!(e.ctrlKey || e.metaKey)) {
+              if (isReviewing && handleReviewKey(e)) return;
+              if ((e.key === 'Delete' || e.key === 'Backspace') && selectedAnnotationId) {
+                  e.preventDefault();
+                  deleteAnnotation(selectedAnnotationId);
+              } else if (e.key === 'Escape') {
+                  setSelectedAnnotationId(null);
+              } else if (e.key === '[' || e.key === ']') {
+                  setBrushRadius(radius => stepBrushRadius(radius, e.key === ']' ? 1 : -1));
+              } else if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && isVideo(activeImage)) {
+                  e.preventDefault();
+                  stepFrame((e.key === 'ArrowRight' ? 1 : -1) * (e.shiftKey ? 10 : 1));
+              }
+              return;
+          }
+
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              undo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              redo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const conceptName = (id: string) => concepts.find(c => c.id === id)?.name || id;
+
+  const imageAnnotations = useMemo(
+      () => annotations.filter(a => a.imageId === activeImage.id),
+      [annotations, activeImage.id]
+  );
+
+  // Playback state. Still images keep the original 0-100 timeline, videos count frames
+  const [currentFrame, setCurrentFrame] = useState(20);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const isVideoMedia = isVideo(activeImage);
+  const frameCount = isVideoMedia ? getFrameCount(activeImage) : 100;
+
+  // On video, the canvas shows each track's geometry for the current frame
+  const frameAnnotations = useMemo(
+      () => isVideoMedia
+          ? imageAnnotations.map(a => resolveAtFrame(a, currentFrame)).filter((a): a is Annotation => a !== null)
+          : imageAnnotations,
+      [imageAnnotations, isVideoMedia, currentFrame]
+  );
+
+  // Pre-labels scoring under their concept's threshold are hidden, not deleted
+  const [thresholds, setThresholds] = useState<ConfidenceThresholds>(DEFAULT_THRESHOLDS);
+  const [verifyAbove, setVerifyAbove] = useState(0.9);
+  const visibleAnnotations = useMemo(
+      () => frameAnnotations.filter(a => !isBelowThreshold(a, thresholds)),
+      [frameAnnotations, thresholds]
+  );
+  const hiddenCount = frameAnnotations.length - visibleAnnotations.length;
+
+  // Text-prompt detections are deduplicated on the way in; overlaps that remain are flagged for review
+  const [dedupe, setDedupe] = useState<DedupeSettings>(DEFAULT_DEDUPE);
+  const [dismissedPairs, setDismissedPairs] = useState<Set<string>>(new Set());
+  const duplicatePairs = useMemo(
+      () => findDuplicatePairs(visibleAnnotations, dedupe.iouThreshold).filter(p => !dismissedPairs.has(duplicatePairKey(p))),
+      [visibleAnnotations, dedupe.iouThreshold, dismissedPairs]
+  );
+
+  // Tracker propagation runs in the background and is cancelled on image change
+  const [trackerId, setTrackerId] = useState<TrackerId>('mock-motion');
+  const [propagation, setPropagation] = useState<PropagationProgress | null>(null);
+  const propagationAbortRef = useRef<AbortController | null>(null);
   
   // UI State
   const [showSpatialPanel, setShowSpatialPanel] = useState(false);
   const [showSpatialOverlay, setShowSpatialOverlay] = useState(false);
   const [selectedTool, setSelectedTool] = useState<ToolType>('select');
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [pendingPrompt, setPendingPrompt] = useState<PointPrompt | null>(null);
+  const [brushRadius, setBrushRadius] = useState(12);
+  const [snapToEdges, setSnapToEdges] = useState(false);
+  const promptAbortRef = useRef<AbortController | null>(null);
+  const selectedAnnotation = frameAnnotations.find(a => a.id === selectedAnnotationId);
+  const maskCount = visibleAnnotations.filter(a => a.type === 'mask' && a.mask).length;
+
+  // Review mode walks the unverified annotations on screen, least confident first.
+  // The canvas zooms to `focusId`, which outlives review while the user edits it.
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const [reviewTotal, setReviewTotal] = useState(0);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const reviewQueue = useMemo(
+      () => visibleAnnotations
+          .filter(a => !a.isVerified && concepts.some(c => c.id === a.conceptId && c.isVisible))
+          .sort((a, b) => a.confidence - b.confidence),
+      [visibleAnnotations, concepts]
+  );
+  const reviewCurrent = reviewQueue.find(a => a.id === reviewId);
+  const focusBox = frameAnnotations.find(a => a.id === focusId)?.box || null;
+
+  // The reviewed annotation is selected and framed; when it leaves the queue the least confident takes over
+  useEffect(() => {
+      if (!isReviewing) return;
+      const id = reviewCurrent?.id ?? reviewQueue[0]?.id ?? null;
+      if (id !== reviewId) {
+          setReviewId(id);
+          return;
+      }
+      setSelectedAnnotationId(id);
+      setFocusId(id);
+  }, [isReviewing, reviewId, reviewQueue]);
+
+  // The progress total restarts on another image or frame; within one it only grows (e.g. new
+  // detections), so verifying or rejecting counts as progress rather than shrinking it
+  const frameIndex = Math.floor(currentFrame);
+  const reviewScopeRef = useRef('');
+  useEffect(() => {
+      if (!isReviewing) return;
+      const scope = `${activeImage.id}@${frameIndex}`;
+      const moved = reviewScopeRef.current !== scope;
+      reviewScopeRef.current = scope;
+      setReviewTotal(total => moved ? reviewQueue.length : Math.max(total, reviewQueue.length));
+  }, [isReviewing, activeImage.id, frameIndex, reviewQueue.length]);
+
+  useEffect(() => {
+      if (focusId && selectedAnnotationId !== focusId) setFocusId(null);
+  }, [selectedAnnotationId]);
 
   // File Input
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const cocoInputRef = useRef<HTMLInputElement>(null);
+  const [exportFormat, setExportFormat] = useState('coco');
 
-  // Playback state
-  const [currentTime, setCurrentTime] = useState(20);
-  const [isPlaying, setIsPlaying] = useState(false);
+  // Project persistence
+  const [project, setProject] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
+  const [showProjectBrowser, setShowProjectBrowser] = useState(false);
+  const [isLoadingProjects, setIsLoadingProjects] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  const autosaveFailingRef = useRef(false); // Toast once per failure streak, not on every retry
+  const imageBlobsRef = useRef(new Map<string, Blob>());
+  const persistedBlobIdsRef = useRef(new Set<string>());
 
+  // Video playback is driven by the <video> element in SemanticCanvas
   useEffect(() => {
       let interval: ReturnType<typeof setInterval>;
-      if (isPlaying) {
+      if (isPlaying && !isVideoMedia) {
           interval = setInterval(() => {
-              setCurrentTime(prev => (prev >= 100 ? 0 : prev + 0.2));
+              setCurrentFrame(prev => (prev >= 100 ? 0 : prev + 0.2));
           }, 50);
       }
       return () => clearInterval(interval);
-  }, [isPlaying]);
+  }, [isPlaying, isVideoMedia]);
+
+  useEffect(() => {
+      setIsPlaying(false);
+      setCurrentFrame(isVideo(activeImage) ? 0 : 20);
+      propagationAbortRef.current?.abort();
+  }, [activeImage.id]);
+
+  const seekFrame = (frame: number) => {
+      setIsPlaying(false);
+      setCurrentFrame(Math.max(0, Math.min(frameCount - 1, Math.round(frame))));
+  };
+
+  const stepFrame = (delta: number) => seekFrame(currentFrame + delta);
+
+  const setVideoFps = (fps: number) => {
+      if (!(fps > 0)) return;
+      setImages(prev => prev.map(img => img.id === activeImage.id
+          ? { ...img, fps, frameCount: getFrameCount({ ...img, fps, frameCount: undefined }) }
+          : img));
+  };
+
+  // Resolve natural media size, needed to convert normalized boxes to pixels on export
+  useEffect(() => {
+      if (activeImage.width) return;
+      loadMediaSize(activeImage)
+          .then(size => setImages(prev => prev.map(img => img.id === activeImage.id ? { ...img, ...size } : img)))
+          .catch(error => console.warn(error));
+  }, [activeImage.id, activeImage.width]);
+
+  const refreshProjects = async () => {
+      setIsLoadingProjects(true);
+      try {
+          const projects = await listProjects();
+          setSavedProjects(projects);
+          return projects;
+      } catch (error) {
+          console.error("Could not list saved projects", error);
+          return [];
+      } finally {
+          setIsLoadingProjects(false);
+      }
+  };
+
+  // Offer to restore a saved session on startup
+  useEffect(() => {
+      refreshProjects().then(projects => {
+          if (projects.length > 0) setShowProjectBrowser(true);
+      });
+  }, []);
+
+  // Autosave once there is something worth keeping
+  useEffect(() => {
+      if (!project && annotations.length === 0 && concepts.length === 0) return;
+
+      const current = project || { id: `project-${Date.now()}`, name: images[0].fileName, createdAt: Date.now() };
+      if (!project) setProject(current);
+
+      const timeout = setTimeout(async () => {
+          try {
+              // Blobs are written once per image, the project record on every change
+              for (const img of images) {
+                  if (persistedBlobIdsRef.current.has(img.id)) continue;
+                  let blob = imageBlobsRef.current.get(img.id);
+                  if (!blob) {
+                      blob = await (await fetch(img.src)).blob();
+                      imageBlobsRef.current.set(img.id, blob);
+                  }
+                  await saveImageBlob(current.id, img.id, blob);
+                  persistedBlobIdsRef.current.add(img.id);
+              }
+              await saveProject({
+                  id: current.id,
+                  name: current.name,
+                  createdAt: current.createdAt,
+                  images: images.map(({ src, ...meta }) => meta),
+                  activeImageId,
+                  concepts,
+                  annotations,
+                  activeConceptId
+              });
+              setLastSavedAt(Date.now());
+              setAutosaveError(null);
+              autosaveFailingRef.current = false;
+          } catch (error) {
+              const message = (error as Error).message;
+              setAutosaveError(message);
+              if (!autosaveFailingRef.current) pushToast('error', 'Autosave failed', `Recent changes are not saved: ${message}`);
+              autosaveFailingRef.current = true;
+          }
+      }, 1000);
+
+      return () => clearTimeout(timeout);
+  }, [project, images, activeImageId, annotations, concepts, activeConceptId]);
+
+  const replaceDataset = (nextImages: DatasetImage[], blobs: Map<string, Blob>) => {
+      images.forEach(img => {
+          if (img.src.startsWith('blob:')) URL.revokeObjectURL(img.src);
+      });
+      imageBlobsRef.current = blobs;
+      persistedBlobIdsRef.current = new Set();
+      setImages(nextImages);
+      setActiveImageId(nextImages[0].id);
+  };
+
+  const handleOpenProject = async (id: string) => {
+      try {
+          const stored = await loadProject(id);
+          if (!stored) return;
+          const restored: DatasetImage[] = stored.images
+              .filter(img => stored.blobs.has(img.id))
+              .map(img => ({ ...img, src: URL.createObjectURL(stored.blobs.get(img.id)!) }));
+          if (restored.length === 0) throw new Error("Project has no stored images");
+
+          replaceDataset(restored, stored.blobs);
+          persistedBlobIdsRef.current = new Set(restored.map(img => img.id));
+          if (stored.activeImageId && stored.blobs.has(stored.activeImageId)) setActiveImageId(stored.activeImageId);
+          resetDocument({ annotations: ensureTrackIds(stored.annotations), concepts: stored.concepts });
+          setActiveConceptId(stored.activeConceptId);
+          setProject({ id: stored.id, name: stored.name, createdAt: stored.createdAt });
+          setLastSavedAt(stored.updatedAt);
+          setShowProjectBrowser(false);
+      } catch (error) {
+          pushToast('error', 'Could not restore project', (error as Error).message);
+      }
+  };
+
+  const closeProject = () => {
+      replaceDataset(DEMO_DATASET, new Map());
+      resetDocument({ annotations: [], concepts: [] });
+      setActiveConceptId(null);
+      setProject(null);
+      setLastSavedAt(null);
+      setAutosaveError(null);
+      autosaveFailingRef.current = false;
+  };
+
+  // Deleting the open project also closes it, otherwise autosave would recreate it
+  const handleDeleteProject = async (id: string) => {
+      try {
+          await deleteProject(id);
+      } catch (error) {
+          console.error("Could not delete project", error);
+          pushToast('error', 'Could not delete project', (error as Error).message);
+          return;
+      }
+      if (project?.id === id) closeProject();
+      refreshProjects();
+  };
+
+  const handleNewProject = () => {
+      closeProject();
+      setShowProjectBrowser(false);
+  };
+
+  // The point tool needs a backend that takes click prompts
+  useEffect(() => {
+      if (selectedTool === 'point' && !backend.capabilities.pointPrompts) setSelectedTool('select');
+  }, [backend, selectedTool]);
 
   // Auto-switch visuals when model changes
   useEffect(() => {
@@ -70,118 +478,692 @@ export default function App() {
       }
   }, [activeModel]);
 
+  const checkBackendHealth = async () => {
+      setBackendHealth(null);
+      setBackendHealth(await getDetectionBackend(activeModel).checkHealth());
+  };
+
+  useEffect(() => {
+      checkBackendHealth();
+  }, [activeModel]);
+
+  // Encoded and hashed once per image (on video, per frame) rather than on every submit;
+  // the hash keys the detection cache
+  const encodeActiveImage = (frame: HTMLCanvasElement | null): Promise<EncodedImage> => frame
+      ? encodeOnce(`${imageSrc}@${Math.floor(currentFrame)}`, async () => frame.toDataURL('image/jpeg', 0.92).split(',')[1])
+      : encodeOnce(imageSrc, async () => {
+          if (imageSrc.startsWith('data:')) return imageSrc.split(',')[1];
+          const fullBase64 = await getBase64FromUrl(imageSrc);
+          return fullBase64.split(',')[1] || fullBase64;
+      });
+
+  // Backends receive the active image lazily; only those that need pixels encode it.
+  // On video the frame on screen is copied when the request is made.
+  const getDetectionImage = (): DetectionImage => {
+      const frame = isVideoMedia && videoRef.current ? captureVideoFrame(videoRef.current) : null;
+      return {
+          fileName: activeImage.fileName,
+          width: activeImage.width,
+          height: activeImage.height,
+          mimeType: 'image/jpeg',
+          getBase64: async () => (await encodeActiveImage(frame)).base64
+      };
+  };
+
+  // Text detection sends a downscaled copy, plus overlapping tiles of large images when tiling
+  // is on. Images that cannot be drawn to a canvas (no CORS) fall back to the original bytes.
+  const getDetectionRegions = async (): Promise<DetectionRegion[]> => {
+      const { width, height } = activeImage;
+      const original = () => [{ image: getDetectionImage(), region: FULL_REGION }];
+      if (!width || !height || !needsPreprocessing(width, height, preprocess)) return original();
+      try {
+          const source = isVideoMedia && videoRef.current ? captureVideoFrame(videoRef.current) : await loadImageElement(imageSrc);
+          return planDetectionRegions(source, width, height, activeImage.fileName, preprocess);
+      } catch (error) {
+          console.warn("Preprocessing unavailable, sending the original image", error);
+          return original();
+      }
+  };
+
+  const addFilesToDataset = (files: File[]) => {
+    const imageFiles = files.filter(f => isImageFile(f) || isVideoFile(f)).sort((a, b) => compareFileNames(a.name, b.name));
+    if (imageFiles.length === 0) return;
+
+    const stamp = Date.now();
+    const added: DatasetImage[] = imageFiles.map((file, index) => ({
+        id: `image-${stamp}-${index}`,
+        src: URL.createObjectURL(file),
+        fileName: file.name,
+        width: 0,
+        height: 0,
+        ...(isVideoFile(file) ? { mediaType: 'video' as const, fps: DEFAULT_FPS } : {})
+    }));
+    const blobs = new Map(added.map((img, index) => [img.id, imageFiles[index] as Blob]));
+
+    // The untouched demo image is replaced; otherwise files extend the current dataset
+    const isPristineDemo = images.length === 1 && images[0].id === 'demo' && annotations.length === 0;
+    if (isPristineDemo) {
+        replaceDataset(added, blobs);
+        resetDocument({ annotations: [], concepts: [] });
+        setActiveConceptId(null);
+        // Each new dataset starts a new project; the previous one stays saved
+        setProject({ id: `project-${stamp}`, name: added.length === 1 ? added[0].fileName : `${added.length} images`, createdAt: stamp });
+        setLastSavedAt(null);
+    } else {
+        blobs.forEach((blob, id) => imageBlobsRef.current.set(id, blob));
+        setImages(prev => [...prev, ...added]);
+        setActiveImageId(added[0].id);
+    }
+    // Auto-switch to Gemini for real analysis
+    setActiveModel(ModelType.GEMINI);
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = e.target.files ? Array.from(e.target.files as FileList) : [];
+    e.target.value = '';
+    addFilesToDataset(files);
+  };
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-        if (event.target?.result) {
-            setImageSrc(event.target.result as string);
-            // Reset state for new image
-            setAnnotations([]);
-            setConcepts([]);
-            setActiveConceptId(null);
-            // Auto-switch to Gemini for real analysis
-            setActiveModel(ModelType.GEMINI);
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    addFilesToDataset(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const imageProgress = useMemo(() => {
+    const progress: Record<string, ImageProgress> = {};
+    images.forEach(img => { progress[img.id] = { total: 0, verified: 0 }; });
+    annotations.forEach(a => {
+        const p = a.imageId ? progress[a.imageId] : undefined;
+        if (!p) return;
+        p.total += 1;
+        if (a.isVerified) p.verified += 1;
+    });
+    return progress;
+  }, [images, annotations]);
+
+  const instanceCounts = useMemo(() => {
+    const counts: Record<string, InstanceCounts> = {};
+    concepts.forEach(c => { counts[c.id] = { image: 0, dataset: 0 }; });
+    annotations.forEach(a => {
+        const count = counts[a.conceptId];
+        if (!count) return;
+        count.dataset += 1;
+        if (a.imageId === activeImage.id) count.image += 1;
+    });
+    return counts;
+  }, [concepts, annotations, activeImage.id]);
+
+  const scoreHistograms = useMemo(() => {
+    const histograms: Record<string, number[]> = {};
+    concepts.forEach(c => { histograms[c.id] = confidenceHistogram(annotations.filter(a => a.conceptId === c.id)); });
+    return histograms;
+  }, [concepts, annotations]);
+
+  // Bulk cleanup covers the whole dataset; video tracks count by their track-level score
+  const bulkCounts = useMemo(() => ({
+    verify: annotations.filter(a => !a.isVerified && a.confidence >= verifyAbove).length,
+    reject: annotations.filter(a => isBelowThreshold(a, thresholds)).length
+  }), [annotations, thresholds, verifyAbove]);
+
+  const stepImage = (direction: 1 | -1, onlyUnverified: boolean) => {
+    const start = images.findIndex(img => img.id === activeImage.id);
+    for (let step = 1; step <= images.length; step++) {
+        const candidate = images[(start + direction * step + images.length * step) % images.length];
+        if (!onlyUnverified) {
+            setActiveImageId(candidate.id);
+            return;
         }
-    };
-    reader.readAsDataURL(file);
+        const p = imageProgress[candidate.id];
+        if (candidate.id !== activeImage.id && p && p.total > p.verified) {
+            setActiveImageId(candidate.id);
+            return;
+        }
+    }
   };
 
-  const handleConceptSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputValue.trim()) return;
+  // The command bar takes one concept or a comma/newline separated list, detected in one request.
+  // Results are cached per concept; forcing skips the cache and replaces this image's unverified
+  // detections of those concepts.
+  const detectConcepts = async (input: string, force: boolean) => {
+    if (!input.trim() || isProcessing) return;
 
-    const newConceptName = inputValue.trim();
-    const newConceptId = newConceptName.toLowerCase().replace(/\s+/g, '-');
+    const names = parseConceptList(input);
+    const firstId = toConceptId(names[0]);
 
-    // If exists, just select it
-    if (concepts.find(c => c.id === newConceptId)) {
-        setActiveConceptId(newConceptId);
+    // Concepts that exist and are already labelled on this image are just selected, not re-run
+    const pending = force ? names : names.filter(name => {
+        const id = toConceptId(name);
+        return !(concepts.some(c => c.id === id) && frameAnnotations.some(a => a.conceptId === id));
+    });
+    if (pending.length === 0) {
+        setActiveConceptId(firstId);
         setInputValue('');
         return;
     }
 
     setIsProcessing(true);
-
-    const newConcept: Concept = {
-        id: newConceptId,
-        name: newConceptName,
-        color: COLORS[concepts.length % COLORS.length],
-        presenceScore: 0.92,
-        instanceCount: 0,
-        isVisible: true
-    };
+    const subject = pending.length === 1 ? `"${pending[0]}"` : `${pending.length} concepts`;
+    const pendingIds = new Set(pending.map(toConceptId));
+    const replacedIds = new Set(force ? frameAnnotations.filter(a => !a.isVerified && pendingIds.has(a.conceptId)).map(a => a.id) : []);
 
     let newAnnotations: Annotation[] = [];
+    let cachedNames: string[] = [];
+    const controller = new AbortController();
+    detectionAbortRef.current = controller;
     
-    if (activeModel === ModelType.GEMINI) {
-        try {
-            let base64 = '';
-            if (imageSrc.startsWith('data:')) {
-                base64 = imageSrc.split(',')[1];
-            } else {
-                const fullBase64 = await getBase64FromUrl(imageSrc);
-                base64 = fullBase64.split(',')[1] || fullBase64;
-            }
-            
-            const detected = await detectObjects(process.env.API_KEY || '', base64, newConceptName);
-            
-            newAnnotations = detected.map(a => ({
+    try {
+        // An image that cannot be read here (e.g. no CORS) is detected without the cache
+        const frame = isVideoMedia && videoRef.current ? captureVideoFrame(videoRef.current) : null;
+        const imageHash = await encodeActiveImage(frame).then(encoded => encoded.hash, () => null);
+        const backendTag = backend.cacheTag?.() ?? '';
+        const cacheKey = (prompt: string): DetectionCacheKey => ({
+            model: activeModel,
+            backendTag,
+            imageHash: imageHash!,
+            prompt,
+            promptVersion: backend.promptVersion ?? 1,
+            variant: preprocessKey(activeImage.width, activeImage.height, preprocess)
+        });
+        const cached = imageHash && !force
+            ? await Promise.all(pending.map(name => getCachedDetections(cacheKey(name))))
+            : pending.map(() => null);
+        cachedNames = pending.filter((_, i) => cached[i]);
+
+        // Cached detections get fresh ids, the same result can be added again after a delete
+        const stamp = Date.now();
+        const fromCache = cached.flatMap(hit => (hit || []).map(a => ({ ...a, id: `${a.id}-c${stamp}` })));
+        const uncached = pending.filter((_, i) => !cached[i]);
+
+        let detected: Annotation[] = [];
+        if (uncached.length > 0) {
+            let partial = false;
+            const regions = await getDetectionRegions();
+            detected = (await detectInRegions(backend, regions, {
+                prompts: uncached,
+                signal: controller.signal,
+                onWarning: message => {
+                    partial = true;
+                    pushToast('warning', `Detecting ${subject}`, message);
+                }
+            }, activeImage.width, activeImage.height, (done, total) => setDetectionProgress({ done, total }))).map(a => ({
                 ...a,
-                type: 'box',
-                conceptId: newConceptId
+                type: a.type || 'box',
+                conceptId: toConceptId(a.conceptId)
             }));
-        } catch (error) {
+            // Partial results are not cached so the next run asks again
+            if (imageHash && !partial) {
+                uncached.forEach(name => putCachedDetections(cacheKey(name), detected.filter(a => a.conceptId === toConceptId(name))));
+            }
+        }
+        newAnnotations = [...fromCache, ...detected];
+    } catch (error) {
+        // A failed request is not "nothing found": add no concept and keep the prompt for a retry
+        if (!isCancelled(error)) {
             console.error("Analysis failed", error);
+            pushToast('error', `Could not detect ${subject}`, (error as Error).message);
         }
-    } else {
-        // Mock delay
-        await new Promise(r => setTimeout(r, 800)); 
-        newAnnotations = mockSAM3Detect(newConceptId).map(a => ({...a, type: 'box'}));
+        setIsProcessing(false);
+        return;
+    } finally {
+        detectionAbortRef.current = null;
+        setDetectionProgress(null);
     }
 
-    newConcept.instanceCount = newAnnotations.length;
-    if (newAnnotations.length > 0) {
-        const avgConf = newAnnotations.reduce((sum, a) => sum + a.confidence, 0) / newAnnotations.length;
-        newConcept.presenceScore = avgConf;
-    } else {
-        newConcept.presenceScore = 0.1;
+    const missing = pending.filter(name => !newAnnotations.some(a => a.conceptId === toConceptId(name)));
+    if (missing.length > 0) pushToast('info', `No ${missing.map(name => `"${name}"`).join(', ')} found on this image`);
+    if (cachedNames.length > 0) {
+        const title = cachedNames.length === 1 ? `"${cachedNames[0]}" loaded from cache` : `${cachedNames.length} concepts loaded from cache`;
+        pushToast('info', title, 'Ctrl+Enter in the command bar re-runs the detector');
     }
 
-    setConcepts(prev => [...prev, newConcept]);
-    setAnnotations(prev => [...prev, ...newAnnotations]);
-    setActiveConceptId(newConceptId);
+    // Detections belong to the image (and on video, the frame) they were run on
+    newAnnotations = newAnnotations.map(a => placeOnTimeline({ ...a, imageId: activeImage.id }));
+    newAnnotations = dedupeDetections(newAnnotations, frameAnnotations.filter(a => !replacedIds.has(a.id)), dedupe);
+    const withDetections = (list: Annotation[]) => {
+        const kept = list.filter(a => !replacedIds.has(a.id));
+        return [...kept, ...assignTrackIds(kept, newAnnotations)];
+    };
+
+    // Each new concept gets its own color and a presence score from its detections
+    const newConcepts: Concept[] = pending
+        .filter(name => !concepts.some(c => c.id === toConceptId(name)))
+        .map((name, index) => {
+            const id = toConceptId(name);
+            const found = newAnnotations.filter(a => a.conceptId === id);
+            return {
+                id,
+                name,
+                color: COLORS[(concepts.length + index) % COLORS.length],
+                presenceScore: found.length > 0 ? found.reduce((sum, a) => sum + a.confidence, 0) / found.length : 0.1,
+                instanceCount: found.length,
+                isVisible: true
+            };
+        });
+
+    const counted = `(${newAnnotations.length}${cachedNames.length > 0 ? ', cached' : ''})`;
+    if (newConcepts.length === 0) {
+        const verb = force ? 'Re-run' : 'Detect';
+        const label = pending.length === 1 ? `${verb} "${conceptName(toConceptId(pending[0]))}"` : `${verb} ${pending.length} concepts`;
+        runCommand('add', `${label} ${counted}`, doc => ({
+            ...doc,
+            annotations: withDetections(doc.annotations)
+        }));
+    } else {
+        const label = pending.length === 1 ? `Add concept "${pending[0]}"` : `Add ${newConcepts.length} concepts`;
+        runCommand('concept-add', `${label} ${counted}`, doc => ({
+            concepts: [...doc.concepts, ...newConcepts],
+            annotations: withDetections(doc.annotations)
+        }));
+    }
+    setActiveConceptId(firstId);
     setInputValue('');
     setIsProcessing(false);
   };
 
+  const handleConceptSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    detectConcepts(inputValue, false);
+  };
+
   const toggleVisibility = (id: string) => {
-    setConcepts(prev => prev.map(c => c.id === id ? { ...c, isVisible: !c.isVisible } : c));
+    const concept = concepts.find(c => c.id === id);
+    runCommand('visibility', `${concept?.isVisible ? 'Hide' : 'Show'} "${conceptName(id)}"`, doc => ({
+        ...doc,
+        concepts: doc.concepts.map(c => c.id === id ? { ...c, isVisible: !c.isVisible } : c)
+    }));
   };
 
+  // Removes the concept and all its masks across the dataset as a single undoable step
   const deleteConcept = (id: string) => {
-    setConcepts(prev => prev.filter(c => c.id !== id));
-    setAnnotations(prev => prev.filter(a => a.conceptId !== id));
+    const maskCount = annotations.filter(a => a.conceptId === id).length;
+    runCommand('concept-delete', `Delete concept "${conceptName(id)}" (${maskCount} masks)`, doc => ({
+        concepts: doc.concepts.filter(c => c.id !== id),
+        annotations: doc.annotations.filter(a => a.conceptId !== id)
+    }));
     if (activeConceptId === id) setActiveConceptId(null);
   };
 
   const verifyMask = (id: string) => {
-    setAnnotations(prev => prev.map(a => a.id === id ? { ...a, isVerified: true } : a));
+    const ann = annotations.find(a => a.id === id);
+    runCommand('verify', `Verify ${conceptName(ann?.conceptId || '')} mask`, doc => ({
+        ...doc,
+        annotations: doc.annotations.map(a => a.id === id ? { ...a, isVerified: true } : a)
+    }));
   };
 
+  // Instance counts are derived from annotations, see instanceCounts
   const rejectMask = (id: string) => {
-    setAnnotations(prev => prev.filter(a => a.id !== id));
-    // Update count
-    setConcepts(prev => prev.map(c => {
-        const remaining = annotations.filter(a => a.conceptId === c.id && a.id !== id).length - 1;
-        return c.id === annotations.find(a => a.id === id)?.conceptId ? { ...c, instanceCount: Math.max(0, remaining) } : c;
+    const ann = annotations.find(a => a.id === id);
+    runCommand('reject', `Reject ${conceptName(ann?.conceptId || '')} mask`, doc => ({
+        ...doc,
+        annotations: doc.annotations.filter(a => a.id !== id)
+    }));
+  };
+
+  const verifyAllAbove = () => {
+    if (bulkCounts.verify === 0) return;
+    runCommand('verify', `Verify ${bulkCounts.verify} scoring ${(verifyAbove * 100).toFixed(0)}% or more`, doc => ({
+        ...doc,
+        annotations: doc.annotations.map(a => !a.isVerified && a.confidence >= verifyAbove ? { ...a, isVerified: true } : a)
     }));
   };
 
+  const rejectAllBelow = () => {
+    if (bulkCounts.reject === 0) return;
+    if (selectedAnnotationId && annotations.some(a => a.id === selectedAnnotationId && isBelowThreshold(a, thresholds))) {
+        setSelectedAnnotationId(null);
+    }
+    runCommand('reject', `Reject ${bulkCounts.reject} below threshold`, doc => ({
+        ...doc,
+        annotations: doc.annotations.filter(a => !isBelowThreshold(a, thresholds))
+    }));
+  };
+
+  const keepDuplicate = (keepId: string, dropId: string) => {
+    const kept = annotations.find(a => a.id === keepId);
+    if (selectedAnnotationId === dropId) setSelectedAnnotationId(keepId);
+    runCommand('dedupe', `Remove duplicate ${conceptName(kept?.conceptId || '')}`, doc => ({
+        ...doc,
+        annotations: doc.annotations.filter(a => a.id !== dropId)
+    }));
+  };
+
+  // Still images only: the fused annotation takes the more confident one's id and identity
+  const mergeDuplicate = (pair: DuplicatePair) => {
+    const fused = { ...fuseAnnotations([pair.a, pair.b]), isVerified: pair.a.isVerified || pair.b.isVerified };
+    if (selectedAnnotationId === pair.b.id) setSelectedAnnotationId(fused.id);
+    runCommand('dedupe', `Merge duplicate ${conceptName(pair.a.conceptId)}`, doc => ({
+        ...doc,
+        annotations: doc.annotations.filter(a => a.id !== pair.b.id).map(a => a.id === fused.id ? fused : a)
+    }));
+  };
+
+  const dismissDuplicate = (pair: DuplicatePair) => {
+    setDismissedPairs(prev => new Set(prev).add(duplicatePairKey(pair)));
+  };
+
+  // Moves the concept across the whole track; the object takes a fresh identity in its new concept
+  const relabelAnnotation = (id: string, conceptId: string) => {
+    const ann = annotations.find(a => a.id === id);
+    if (!ann || ann.conceptId === conceptId) return;
+    runCommand('relabel', `Relabel ${conceptName(ann.conceptId)} as ${conceptName(conceptId)}`, doc => ({
+        ...doc,
+        annotations: doc.annotations.map(a => a.id === id ? { ...a, conceptId, trackId: nextTrackId(doc.annotations, conceptId) } : a)
+    }));
+  };
+
+  const startReview = () => {
+    if (reviewQueue.length === 0) return;
+    setIsPlaying(false);
+    setSelectedTool('select');
+    setIsReviewing(true);
+    setReviewTotal(reviewQueue.length);
+    setReviewId(reviewQueue[0].id);
+  };
+
+  const stopReview = () => {
+    setIsReviewing(false);
+    setReviewId(null);
+    setFocusId(null);
+  };
+
+  // The item after the current one, wrapping; decided before the current one leaves the queue
+  const reviewNeighbour = (direction: 1 | -1) => {
+    const index = reviewQueue.findIndex(a => a.id === reviewId);
+    if (reviewQueue.length <= 1) return null;
+    return reviewQueue[(index + direction + reviewQueue.length) % reviewQueue.length].id;
+  };
+
+  const acceptReviewed = () => {
+    if (!reviewCurrent) return;
+    const next = reviewNeighbour(1);
+    verifyMask(reviewCurrent.id);
+    setReviewId(next);
+  };
+
+  const rejectReviewed = () => {
+    if (!reviewCurrent) return;
+    const next = reviewNeighbour(1);
+    rejectMask(reviewCurrent.id);
+    setReviewId(next);
+  };
+
+  // Leaves review with the annotation selected and still zoomed, ready for handle edits
+  const editReviewed = () => {
+    if (!reviewCurrent) return;
+    setIsReviewing(false);
+    setReviewId(null);
+    setSelectedAnnotationId(reviewCurrent.id);
+    setFocusId(reviewCurrent.id);
+  };
+
+  const hasNextReviewImage = images.some(img => {
+    const p = imageProgress[img.id];
+    return img.id !== activeImage.id && p && p.total > p.verified;
+  });
+
+  // Returns whether the key was a review command
+  const handleReviewKey = (e: KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    if (key === 'escape') {
+        stopReview();
+    } else if (key === 'tab') {
+        e.preventDefault();
+        if (reviewCurrent) setReviewId(reviewNeighbour(e.shiftKey ? -1 : 1) ?? reviewCurrent.id);
+        else if (hasNextReviewImage) stepImage(1, true);
+    } else if (key === 'a') {
+        acceptReviewed();
+    } else if (key === 'r') {
+        rejectReviewed();
+    } else if (key === 'e') {
+        editReviewed();
+    } else if (/^[1-9]$/.test(key)) {
+        const concept = concepts[Number(key) - 1];
+        if (concept && reviewCurrent) relabelAnnotation(reviewCurrent.id, concept.id);
+    } else {
+        return false;
+    }
+    return true;
+  };
+
+  const deleteAnnotation = (id: string) => {
+    const ann = annotations.find(a => a.id === id);
+    runCommand('delete', `Delete ${conceptName(ann?.conceptId || '')} mask`, doc => ({
+        ...doc,
+        annotations: doc.annotations.filter(a => a.id !== id)
+    }));
+    if (selectedAnnotationId === id) setSelectedAnnotationId(null);
+  };
+
+  // New annotations on video start a track at the current frame; images keep the full 0-100 range
+  const placeOnTimeline = (ann: Annotation): Annotation => isVideoMedia
+    ? startTrack(ann, Math.round(currentFrame), frameCount - 1)
+    : { ...ann, frameStart: 0, frameEnd: 100 };
+
+  // Replaces an annotation with an edited copy; on video the geometry becomes the current frame's keyframe
+  const replaceAnnotation = (list: Annotation[], edited: Annotation) =>
+    list.map(a => a.id === edited.id ? (isVideoMedia ? writeAtFrame(a, edited, Math.round(currentFrame)) : edited) : a);
+
+  // Geometry edits from SemanticCanvas replace the whole annotation in one step
+  const updateAnnotation = (updated: Annotation, label: string) => {
+    runCommand('geometry', label, doc => ({
+        ...doc,
+        annotations: replaceAnnotation(doc.annotations, updated)
+    }));
+  };
+
+  // Masks are rasterized at the image's natural size, so conversion waits for its dimensions
+  const convertToMask = (id: string) => {
+    const ann = frameAnnotations.find(a => a.id === id);
+    const { width, height } = activeImage;
+    if (!ann || ann.type === 'mask' || ann.type === 'point' || !width || !height) return;
+
+    const mask = ann.type === 'polygon' && ann.points && ann.points.length >= 3
+        ? polygonToMask(ann.points, width, height)
+        : boxToMask(ann.box, width, height);
+    const box = maskToBox(mask);
+    if (!box) return;
+
+    runCommand('geometry', `Convert ${conceptName(ann.conceptId)} to mask`, doc => ({
+        ...doc,
+        annotations: replaceAnnotation(doc.annotations, { ...ann, type: 'mask', mask, box, points: undefined })
+    }));
+  };
+
+  const convertToPolygon = (id: string) => {
+    const ann = frameAnnotations.find(a => a.id === id);
+    if (!ann || ann.type !== 'mask' || !ann.mask) return;
+
+    const points = maskToPolygon(ann.mask);
+    if (points.length < 3) return;
+
+    runCommand('geometry', `Convert ${conceptName(ann.conceptId)} to polygon`, doc => ({
+        ...doc,
+        annotations: replaceAnnotation(doc.annotations, { ...ann, type: 'polygon', points, mask: undefined })
+    }));
+  };
+
+  const deleteKeyframe = (annotationId: string, frame: number) => {
+    const ann = annotations.find(a => a.id === annotationId);
+    runCommand('geometry', `Remove ${conceptName(ann?.conceptId || '')} keyframe ${frame}`, doc => ({
+        ...doc,
+        annotations: doc.annotations.map(a => a.id === annotationId ? removeKeyframe(a, frame) : a)
+    }));
+  };
+
+  const handleSplitTrack = (id: string, frame: number) => {
+    const ann = annotations.find(a => a.id === id);
+    const parts = ann ? splitTrack(ann, frame, `${id}-split-${Date.now()}`) : null;
+    if (!ann || !parts) return;
+
+    // Splitting usually fixes an identity switch, so the tail becomes a new object
+    runCommand('track', `Split ${conceptName(ann.conceptId)} track at ${isVideoMedia ? `frame ${frame}` : frame}`, doc => ({
+        ...doc,
+        annotations: doc.annotations.flatMap(a => a.id === id
+            ? [parts[0], { ...parts[1], trackId: nextTrackId(doc.annotations, ann.conceptId) }]
+            : [a])
+    }));
+  };
+
+  const handleMergeTracks = (primaryId: string, secondaryId: string) => {
+    const primary = annotations.find(a => a.id === primaryId);
+    const secondary = annotations.find(a => a.id === secondaryId);
+    if (!primary || !secondary || primary.conceptId !== secondary.conceptId) return;
+
+    const merged = mergeTracks(primary, secondary);
+    runCommand('track', `Merge ${conceptName(primary.conceptId)} tracks`, doc => ({
+        ...doc,
+        annotations: doc.annotations
+            .filter(a => a.id !== secondaryId)
+            .map(a => a.id === primaryId ? merged : a)
+    }));
+    setSelectedAnnotationId(primaryId);
+  };
+
+  const handleReassignTrackId = (id: string, trackId: number) => {
+    const ann = annotations.find(a => a.id === id);
+    if (!ann) return;
+    runCommand('identity', `Reassign ${conceptName(ann.conceptId)} #${ann.trackId ?? '?'} to #${trackId}`, doc => ({
+        ...doc,
+        annotations: reassignTrackId(doc.annotations, id, trackId)
+    }));
+  };
+
+  const handleSwapTrackIds = (firstId: string, secondId: string) => {
+    const first = annotations.find(a => a.id === firstId);
+    const second = annotations.find(a => a.id === secondId);
+    if (!first || !second) return;
+    runCommand('identity', `Swap ${conceptName(first.conceptId)} #${first.trackId ?? '?'} and #${second.trackId ?? '?'}`, doc => ({
+        ...doc,
+        annotations: swapTrackIds(doc.annotations, firstId, secondId)
+    }));
+  };
+
+  const handleRenumberTrackIds = (conceptId: string) => {
+    runCommand('identity', `Renumber ${conceptName(conceptId)} identities`, doc => ({
+        ...doc,
+        annotations: renumberTrackIds(doc.annotations, conceptId, images.map(img => img.id))
+    }));
+  };
+
+  // Tracks the object from the playhead to the next keyframe or clip edge; the
+  // result lands as a single undoable command once the tracker finishes
+  const handlePropagate = async (id: string, direction: 1 | -1) => {
+    const track = annotations.find(a => a.id === id);
+    const frame = Math.floor(currentFrame);
+    const source = track && resolveAtFrame(track, frame);
+    if (!track || !source || !isVideoMedia || propagation) return;
+
+    const frames = propagationFrames(track, frame, direction, frameCount - 1);
+    if (frames.length === 0) return;
+
+    const controller = new AbortController();
+    propagationAbortRef.current = controller;
+    setIsPlaying(false);
+    setPropagation({ annotationId: id, done: 0, total: frames.length });
+
+    try {
+        const tracked = await getTracker(trackerId).track({
+            src: activeImage.src,
+            fps: getFps(activeImage),
+            seed: id,
+            startFrame: frame,
+            box: source.box,
+            frames,
+            signal: controller.signal,
+            onProgress: (done, total) => setPropagation({ annotationId: id, done, total })
+        });
+        if (controller.signal.aborted) return;
+
+        runCommand('track', `Propagate ${conceptName(track.conceptId)} ${direction > 0 ? 'forward' : 'backward'} (${tracked.length} frames)`, doc => ({
+            ...doc,
+            annotations: doc.annotations.map(a => a.id === id ? applyPropagation(a, frame, frames, tracked) : a)
+        }));
+    } catch (error) {
+        if (!controller.signal.aborted) pushToast('error', 'Propagation failed', (error as Error).message);
+    } finally {
+        if (propagationAbortRef.current === controller) propagationAbortRef.current = null;
+        setPropagation(null);
+    }
+  };
+
+  // Point prompts refine the selected annotation, or start a new one for the active concept
+  const handlePointPrompt = async (prompt: PointPrompt) => {
+    if (!backend.capabilities.pointPrompts) {
+        pushToast('warning', 'Point prompts unavailable', `${backend.name} does not support point prompts; switch backend to refine by clicking`);
+        return;
+    }
+
+    const selected = frameAnnotations.find(a => a.id === selectedAnnotationId);
+    if (!selected && (prompt.label === 0 || !activeConceptId)) return;
+
+    const target: Annotation = selected || {
+        id: `prompt-${Date.now()}`,
+        conceptId: activeConceptId!,
+        box: { xmin: prompt.x, ymin: prompt.y, xmax: prompt.x, ymax: prompt.y },
+        type: 'polygon',
+        confidence: 0,
+        isVerified: false,
+        isMasklet: true,
+        imageId: activeImage.id
+    };
+    const prompts = [...(target.prompts || []), prompt];
+    // A model proposal's original box stays part of the prompt on every refinement
+    const promptBox = target.promptBox ?? (selected && !selected.prompts?.length ? selected.box : undefined);
+
+    // A newer click supersedes the request still in flight
+    promptAbortRef.current?.abort();
+    const controller = new AbortController();
+    promptAbortRef.current = controller;
+    setPendingPrompt(prompt);
+    try {
+        const [result] = await backend.detectByPrompts({
+            image: getDetectionImage(),
+            points: prompts,
+            boxes: promptBox ? [promptBox] : undefined,
+            conceptId: target.conceptId,
+            signal: controller.signal
+        });
+        if (controller.signal.aborted) return;
+        if (!result) {
+            pushToast('info', 'No mask found', `${backend.name} returned nothing for these points`);
+            return;
+        }
+
+        const refined: Annotation = {
+            ...target,
+            box: result.box,
+            type: result.mask ? 'mask' : result.points ? 'polygon' : 'box',
+            points: result.points,
+            mask: result.mask,
+            confidence: result.confidence,
+            prompts,
+            promptBox
+        };
+        const label = `${prompt.label === 1 ? 'Positive' : 'Negative'} point on ${conceptName(target.conceptId)}`;
+
+        if (selected) {
+            runCommand('prompt', label, doc => ({
+                ...doc,
+                annotations: replaceAnnotation(doc.annotations, refined)
+            }));
+        } else {
+            runCommand('add', label, doc => ({ ...doc, annotations: [...doc.annotations, ...assignTrackIds(doc.annotations, [placeOnTimeline(refined)])] }));
+            setSelectedAnnotationId(refined.id);
+        }
+    } catch (error) {
+        if (!isCancelled(error)) pushToast('error', 'Point prompt failed', (error as Error).message);
+    } finally {
+        if (promptAbortRef.current === controller) {
+            promptAbortRef.current = null;
+            setPendingPrompt(null);
+        }
+    }
+  };
+
   const handleAddManualAnnotation = (partialAnn: Partial<Annotation>) => {
-    const newAnn: Annotation = {
+    const newAnn: Annotation = placeOnTimeline({
         id: `manual-${Date.now()}`,
         conceptId: partialAnn.conceptId!,
         box: partialAnn.box!,
@@ -190,19 +1172,105 @@ export default function App() {
         confidence: 1.0,
         isVerified: true,
         isMasklet: false,
-        frameStart: 0,
-        frameEnd: 100,
         spatialContext: "Manually labeled",
         depthLayer: 5,
+        imageId: activeImage.id,
         ...partialAnn
-    };
+    });
+
+    runCommand('add', `Draw ${newAnn.type} (${conceptName(newAnn.conceptId)})`, doc => ({
+        ...doc,
+        annotations: [...doc.annotations, ...assignTrackIds(doc.annotations, [newAnn])]
+    }));
+  };
+
+  const handleExport = async () => {
+    const exporter = getExporter(exportFormat);
+    if (!exporter) return;
+
+    try {
+        // Images that were never opened have no dimensions yet
+        const sized = await Promise.all(images.map(async img =>
+            img.width && img.height ? img : { ...img, ...await loadMediaSize(img) }
+        ));
+        setImages(sized);
+
+        const files = exporter.export({ annotations, concepts, images: sized });
+        if (files.length === 1) {
+            downloadFile(files[0].fileName, files[0].content, files[0].mimeType);
+        } else {
+            downloadFile(`${exporter.id}_export.zip`, createZip(files));
+        }
+    } catch (error) {
+        pushToast('error', 'Export failed', (error as Error).message);
+    }
+  };
+
+  // CVAT tracks cover one video, so they replace that video's annotations as an
+  // undoable command and take track ids after those used elsewhere in the dataset
+  const importCVAT = (xml: string) => {
+    const result = importFromCVATVideo(xml, images, activeImage.id);
+    const target = images.find(img => img.id === result.imageId)!;
+
+    runCommand('import', `Import CVAT tracks into ${target.fileName} (${result.trackCount})`, doc => {
+        const kept = doc.annotations.filter(a => a.imageId !== result.imageId);
+        const offsets = new Map(result.concepts.map(c => [c.id, nextTrackId(kept, c.id) - 1]));
+        return {
+            concepts: [...doc.concepts, ...result.concepts.filter(c => !doc.concepts.some(existing => existing.id === c.id))],
+            annotations: [
+                ...kept,
+                ...result.annotations.map(a => ({ ...a, trackId: (a.trackId ?? 0) + offsets.get(a.conceptId)! }))
+            ]
+        };
+    });
+    setActiveImageId(result.imageId);
+    setActiveConceptId(result.concepts[0]?.id ?? activeConceptId);
+  };
+
+  const handleImportAnnotations = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (/\.xml$/i.test(file.name)) {
+        try {
+            importCVAT(await readFileAsText(file));
+        } catch (error) {
+            pushToast('error', 'CVAT import failed', (error as Error).message);
+        }
+        return;
+    }
 
-    setAnnotations(prev => [...prev, newAnn]);
-    setConcepts(prev => prev.map(c => c.id === newAnn.conceptId ? { ...c, instanceCount: c.instanceCount + 1 } : c));
+    try {
+        const result = importFromCOCO(JSON.parse(await readFileAsText(file)), images, activeImage.id);
+        // An undoable step, so importing the wrong file never loses the current work. Only the
+        // images the file covers are replaced; categories join the existing concepts.
+        const covered = new Set(result.imageIds);
+        runCommand('import', `Import COCO annotations (${result.annotations.length})`, doc => {
+            const kept = doc.annotations.filter(a => !a.imageId || !covered.has(a.imageId));
+            const offsets = new Map(result.concepts.map(c => [c.id, nextTrackId(kept, c.id) - 1]));
+            const imported = result.annotations.map(a => a.trackId !== undefined ? { ...a, trackId: a.trackId + offsets.get(a.conceptId)! } : a);
+            return {
+                concepts: [...doc.concepts, ...result.concepts.filter(c => !doc.concepts.some(existing => existing.id === c.id))],
+                annotations: [...kept, ...assignTrackIds([...kept, ...imported], imported)]
+            };
+        });
+        setActiveConceptId(result.concepts[0]?.id ?? activeConceptId);
+        if (result.skippedImageCount > 0) {
+            pushToast('warning', 'COCO import incomplete', `${result.skippedImageCount} image${result.skippedImageCount === 1 ? ' has' : 's have'} no matching file in the dataset`);
+        }
+    } catch (error) {
+        pushToast('error', 'COCO import failed', (error as Error).message);
+    }
   };
 
   return (
-    <div className="flex flex-col h-screen bg-zinc-950 text-zinc-100 font-sans">
+    <div 
+      className="flex flex-col h-screen bg-zinc-950 text-zinc-100 font-sans"
+      onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragOver(false); }}
+      onDrop={handleDrop}
+    >
       {/* Top Bar */}
       <header className="h-14 border-b border-zinc-800 bg-zinc-900 flex items-center justify-between px-4 shrink-0 z-50">
         <div className="flex items-center space-x-4">
@@ -228,6 +1296,22 @@ export default function App() {
                <Wand2 size={12} />
                <span>Gemini 3 Spatial</span>
             </button>
+            <button 
+               onClick={() => setActiveModel(ModelType.SAM_SERVER)}
+               title="Self-hosted SAM server over HTTP"
+               className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${activeModel === ModelType.SAM_SERVER ? 'bg-emerald-900/30 text-emerald-300 shadow-sm ring-1 ring-emerald-500/20' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+               SAM Server
+            </button>
+            <BackendSettings
+               backend={backend}
+               health={backendHealth}
+               onCheckHealth={checkBackendHealth}
+               dedupe={dedupe}
+               onDedupeChange={setDedupe}
+               preprocess={preprocess}
+               onPreprocessChange={setPreprocess}
+            />
           </div>
 
           {/* Image Upload */}
@@ -235,7 +1319,8 @@ export default function App() {
             type="file" 
             ref={fileInputRef}
             className="hidden"
-            accept="image/*"
+            accept="image/*,video/*"
+            multiple
             onChange={handleFileUpload}
           />
           <button 
@@ -243,8 +1328,59 @@ export default function App() {
             className="flex items-center space-x-2 px-3 py-1.5 rounded-md text-xs font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 transition-colors"
           >
             <Upload size={14} />
-            <span>Upload Image</span>
+            <span>Upload Media</span>
+          </button>
+
+          {/* Saved Projects */}
+          <button 
+            onClick={() => { refreshProjects(); setShowProjectBrowser(true); }}
+            title={autosaveError ? `Unsaved changes: autosave failed (${autosaveError})` : lastSavedAt ? `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Not saved yet'}
+            className="flex items-center space-x-2 px-3 py-1.5 rounded-md text-xs font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 transition-colors"
+          >
+            <FolderOpen size={14} />
+            <span>Projects</span>
+            <span className={`w-1.5 h-1.5 rounded-full ${autosaveError ? 'bg-red-500' : lastSavedAt ? 'bg-emerald-500' : 'bg-zinc-600'}`} />
           </button>
+
+          {/* Dataset Import / Export */}
+          <input 
+            type="file" 
+            ref={cocoInputRef}
+            className="hidden"
+            accept="application/json,.json,application/xml,text/xml,.xml"
+            onChange={handleImportAnnotations}
+          />
+          <div className="flex items-center space-x-1">
+            <button 
+              onClick={() => cocoInputRef.current?.click()}
+              title="Import COCO instances JSON or CVAT for video 1.1 XML"
+              className="flex items-center space-x-2 px-3 py-1.5 rounded-md text-xs font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 transition-colors"
+            >
+              <FileJson size={14} />
+              <span>Import</span>
+            </button>
+            <div className="flex items-center rounded-md border border-zinc-700 bg-zinc-800 overflow-hidden">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value)}
+                title={getExporter(exportFormat)?.description}
+                className="bg-transparent text-xs text-zinc-300 pl-2 pr-1 py-1.5 focus:outline-none cursor-pointer"
+              >
+                {getExporters().map(exporter => (
+                  <option key={exporter.id} value={exporter.id} className="bg-zinc-900">{exporter.label}</option>
+                ))}
+              </select>
+              <button 
+                onClick={handleExport}
+                disabled={annotations.length === 0}
+                title="Export annotations in the selected format"
+                className="flex items-center space-x-2 px-3 py-1.5 text-xs font-medium hover:bg-zinc-700 text-zinc-300 border-l border-zinc-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Download size={14} />
+                <span>Export</span>
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* Concept Command Bar */}
@@ -257,16 +1393,38 @@ export default function App() {
                     <Search className="text-zinc-500 group-focus-within:text-indigo-400 transition-colors" size={16} />
                 )}
              </div>
-             <input 
-                type="text" 
+             {/* A textarea so pasted multi-line concept lists survive; Shift+Enter adds a line, Ctrl+Enter skips the cache */}
+             <textarea 
+                rows={1}
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
-                placeholder={activeModel === ModelType.GEMINI ? "Ask Gemini to find objects with spatial context..." : "Describe a concept to label..."}
-                className="w-full bg-black border border-zinc-800 rounded-lg pl-10 pr-4 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all shadow-inner"
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        if (e.ctrlKey || e.metaKey) detectConcepts(inputValue, true);
+                        else e.currentTarget.form?.requestSubmit();
+                    }
+                }}
+                placeholder={activeModel === ModelType.GEMINI ? "Ask Gemini to find objects, e.g. car, pedestrian, traffic light..." : "Describe concepts to label, comma separated..."}
+                className="block w-full resize-none bg-black border border-zinc-800 rounded-lg pl-10 pr-4 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all shadow-inner"
              />
-             <div className="absolute inset-y-0 right-2 flex items-center pointer-events-none">
-                <span className="text-[10px] bg-zinc-900 text-zinc-500 px-1.5 py-0.5 rounded border border-zinc-800">ENTER</span>
-             </div>
+             {isProcessing ? (
+               <div className="absolute inset-y-0 right-2 flex items-center">
+                  <button
+                     type="button"
+                     onClick={() => detectionAbortRef.current?.abort()}
+                     title="Cancel detection"
+                     className="flex items-center space-x-1 text-[10px] bg-zinc-900 text-zinc-400 hover:text-red-400 px-1.5 py-0.5 rounded border border-zinc-800"
+                  >
+                     <X size={10} />
+                     <span>{detectionProgress && detectionProgress.total > 1 ? `${detectionProgress.done}/${detectionProgress.total} · ` : ''}CANCEL</span>
+                  </button>
+               </div>
+             ) : (
+               <div className="absolute inset-y-0 right-2 flex items-center pointer-events-none">
+                  <span title="Ctrl+Enter re-runs without cached results" className="pointer-events-auto text-[10px] bg-zinc-900 text-zinc-500 px-1.5 py-0.5 rounded border border-zinc-800">ENTER</span>
+               </div>
+             )}
           </form>
         </div>
 
@@ -303,10 +1461,20 @@ export default function App() {
       <div className="flex-1 flex overflow-hidden relative">
          <ConceptLedger 
             concepts={concepts} 
+            instanceCounts={instanceCounts}
+            showDatasetCounts={images.length > 1}
             activeConceptId={activeConceptId}
             onSelectConcept={setActiveConceptId}
             onToggleVisibility={toggleVisibility}
             onDelete={deleteConcept}
+            thresholds={thresholds}
+            onThresholdsChange={setThresholds}
+            histograms={scoreHistograms}
+            verifyAbove={verifyAbove}
+            onVerifyAboveChange={setVerifyAbove}
+            bulkCounts={bulkCounts}
+            onVerifyAllAbove={verifyAllAbove}
+            onRejectAllBelow={rejectAllBelow}
          />
          
          <div className="flex-1 flex flex-col min-w-0 bg-black/20">
@@ -317,7 +1485,7 @@ export default function App() {
                     <div className="flex items-center bg-black rounded p-1 border border-zinc-800">
                        <button 
                           onClick={() => setSelectedTool('select')}
-                          title="Select / Verify"
+                          title="Select / Edit (drag handles to reshape)"
                           className={`p-1.5 rounded ${selectedTool === 'select' ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
                        >
                           <MousePointer size={16} />
@@ -339,13 +1507,90 @@ export default function App() {
                        </button>
                        <button 
                           onClick={() => setSelectedTool('point')}
-                          title="Add Point"
-                          className={`p-1.5 rounded ${selectedTool === 'point' ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                          disabled={!backend.capabilities.pointPrompts}
+                          title={backend.capabilities.pointPrompts ? "Point Prompt (click to add, Shift+click to exclude)" : `${backend.name} does not support point prompts`}
+                          className={`p-1.5 rounded disabled:opacity-30 disabled:cursor-not-allowed ${selectedTool === 'point' ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
                        >
                           <Target size={16} />
                        </button>
+                       <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+                       <button 
+                          onClick={() => setSelectedTool('brush')}
+                          title="Brush (paints into the selected mask, or a new one for the active concept)"
+                          className={`p-1.5 rounded ${selectedTool === 'brush' ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                       >
+                          <Brush size={16} />
+                       </button>
+                       <button 
+                          onClick={() => setSelectedTool('eraser')}
+                          title="Eraser (removes pixels from the selected mask)"
+                          className={`p-1.5 rounded ${selectedTool === 'eraser' ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                       >
+                          <Eraser size={16} />
+                       </button>
                     </div>
+
+                    {(selectedTool === 'brush' || selectedTool === 'eraser') && (
+                      <div className="flex items-center space-x-2 bg-black rounded px-2 py-1 border border-zinc-800 text-xs text-zinc-400">
+                         <span title="Brush radius in image pixels ([ and ] to adjust)">Radius</span>
+                         <input
+                            type="range"
+                            min={1}
+                            max={200}
+                            value={brushRadius}
+                            onChange={(e) => setBrushRadius(Number(e.target.value))}
+                            className="w-20 accent-indigo-500"
+                         />
+                         <span className="font-mono w-10 text-right">{brushRadius}px</span>
+                         <button
+                            onClick={() => setSnapToEdges(!snapToEdges)}
+                            title="Snap to edges: only paint pixels similar in color to the brush centre"
+                            className={`p-1 rounded ${snapToEdges ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                         >
+                            <Magnet size={12} />
+                         </button>
+                      </div>
+                    )}
+
+                    <button
+                       onClick={() => isReviewing ? stopReview() : startReview()}
+                       disabled={!isReviewing && reviewQueue.length === 0}
+                       title="Review unverified annotations least confident first (A accept, R reject, E edit, Tab skip, 1-9 concept)"
+                       className={`flex items-center space-x-1.5 px-2 py-1 rounded border text-xs disabled:opacity-50 ${isReviewing ? 'border-indigo-500/50 bg-indigo-600 text-white' : 'border-zinc-800 bg-black text-zinc-400 hover:text-zinc-200'}`}
+                    >
+                       <ClipboardCheck size={12} />
+                       <span>Review{reviewQueue.length > 0 ? ` (${reviewQueue.length})` : ''}</span>
+                    </button>
+
+                    <DuplicateReview
+                       pairs={duplicatePairs}
+                       concepts={concepts}
+                       canMerge={!isVideoMedia}
+                       onSelect={setSelectedAnnotationId}
+                       onKeep={keepDuplicate}
+                       onMerge={mergeDuplicate}
+                       onDismiss={dismissDuplicate}
+                    />
+
+                    <HistoryPanel
+                       history={history}
+                       onUndo={undo}
+                       onRedo={redo}
+                       onJump={jumpToHistory}
+                    />
                     
+                    {selectedAnnotation && selectedAnnotation.type !== 'point' && (
+                      <button
+                         onClick={() => selectedAnnotation.type === 'mask' ? convertToPolygon(selectedAnnotation.id) : convertToMask(selectedAnnotation.id)}
+                         disabled={selectedAnnotation.type !== 'mask' && !activeImage.width}
+                         title={selectedAnnotation.type === 'mask' ? 'Trace the mask outline as an editable polygon' : 'Rasterize the shape into a pixel mask'}
+                         className="flex items-center space-x-1.5 px-2 py-1 rounded border border-zinc-800 bg-black text-xs text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+                      >
+                         {selectedAnnotation.type === 'mask' ? <Pentagon size={12} /> : <Grid3x3 size={12} />}
+                         <span>{selectedAnnotation.type === 'mask' ? 'To Polygon' : 'To Mask'}</span>
+                      </button>
+                    )}
+
                     {!activeConceptId && selectedTool !== 'select' && (
                       <span className="text-xs text-amber-500 flex items-center ml-2 animate-pulse">
                          ← Select a concept to start labeling
@@ -356,51 +1601,138 @@ export default function App() {
                 <div className="flex items-center space-x-6 text-xs text-zinc-400">
                     <span className="flex items-center hover:text-zinc-200 cursor-pointer transition-colors">
                         <Layers size={14} className="mr-2 text-zinc-500"/> 
-                        {annotations.length} Masks
+                        {visibleAnnotations.length} Objects · {maskCount} Masks
+                        {hiddenCount > 0 && <span className="ml-1 text-zinc-600" title="Below the confidence threshold">({hiddenCount} hidden)</span>}
                     </span>
                     <span className="flex items-center hover:text-zinc-200 cursor-pointer transition-colors">
                         <Cpu size={14} className="mr-2 text-zinc-500"/> 
-                        {activeModel === ModelType.SAM3 ? 'H100 Cluster (Inference)' : 'Gemini 3 Pro (Reasoning)'}
+                        {backend.name}
                     </span>
                     <span className="flex items-center space-x-2">
-                       <span className={`w-2 h-2 rounded-full ${activeModel === ModelType.GEMINI ? 'bg-indigo-500 animate-pulse' : 'bg-emerald-500'}`}></span>
-                       <span>Latency: {activeModel === ModelType.GEMINI ? '420ms' : '32ms'}</span>
+                       <span className={`w-2 h-2 rounded-full ${backendHealth && !backendHealth.ok ? 'bg-red-500' : activeModel === ModelType.GEMINI ? 'bg-indigo-500 animate-pulse' : 'bg-emerald-500'}`}></span>
+                       <span>Latency: {backendHealth?.latencyMs !== undefined ? `${backendHealth.latencyMs}ms` : activeModel === ModelType.GEMINI ? '420ms' : '—'}</span>
                     </span>
                 </div>
             </div>
 
+            {isReviewing && (
+              <ReviewBar
+                current={reviewCurrent}
+                concepts={concepts}
+                remaining={reviewQueue.length}
+                total={reviewTotal}
+                hasNextImage={hasNextReviewImage}
+                onAccept={acceptReviewed}
+                onReject={rejectReviewed}
+                onEdit={editReviewed}
+                onNext={() => reviewCurrent && setReviewId(reviewNeighbour(1) ?? reviewCurrent.id)}
+                onNextImage={() => stepImage(1, true)}
+                onStop={stopReview}
+              />
+            )}
+
             <SemanticCanvas 
                 imageUrl={imageSrc} 
-                annotations={annotations}
+                mediaType={isVideoMedia ? 'video' : 'image'}
+                videoRef={videoRef}
+                currentFrame={Math.floor(currentFrame)}
+                fps={getFps(activeImage)}
+                isPlaying={isPlaying}
+                onFrameChange={(frame: number) => setCurrentFrame(Math.min(frameCount - 1, frame))}
+                onPlaybackEnd={() => setIsPlaying(false)}
+                annotations={visibleAnnotations}
                 concepts={concepts}
                 selectedTool={selectedTool}
                 activeConceptId={activeConceptId}
                 onVerify={verifyMask}
                 onReject={rejectMask}
                 onAddAnnotation={handleAddManualAnnotation}
+                selectedAnnotationId={selectedAnnotationId}
+                onSelectAnnotation={setSelectedAnnotationId}
+                onUpdateAnnotation={updateAnnotation}
+                onPointPrompt={handlePointPrompt}
+                pendingPrompt={pendingPrompt}
+                imageSize={{ width: activeImage.width, height: activeImage.height }}
+                brushRadius={brushRadius}
+                snapToEdges={snapToEdges}
                 showSpatialOverlay={showSpatialOverlay}
+                focusBox={focusBox}
             />
             
+            {images.length > 1 && (
+              <DatasetGallery
+                images={images}
+                activeImageId={activeImage.id}
+                progress={imageProgress}
+                onSelectImage={setActiveImageId}
+                onPrevious={() => stepImage(-1, false)}
+                onNext={() => stepImage(1, false)}
+                onPreviousUnverified={() => stepImage(-1, true)}
+                onNextUnverified={() => stepImage(1, true)}
+              />
+            )}
+
             <Timeline 
-                annotations={annotations}
+                annotations={imageAnnotations}
                 concepts={concepts}
-                currentTime={currentTime}
-                duration={100}
+                currentFrame={Math.floor(currentFrame)}
+                frameCount={frameCount}
+                fps={isVideoMedia ? getFps(activeImage) : undefined}
                 isPlaying={isPlaying}
                 onPlayPause={() => setIsPlaying(!isPlaying)}
-                onSeek={setCurrentTime}
+                onSeek={seekFrame}
+                onStep={stepFrame}
+                onFpsChange={setVideoFps}
+                onRemoveKeyframe={deleteKeyframe}
+                selectedAnnotationId={selectedAnnotationId}
+                onSelectAnnotation={setSelectedAnnotationId}
+                onSplitTrack={handleSplitTrack}
+                onMergeTracks={handleMergeTracks}
+                trackerId={trackerId}
+                onTrackerChange={setTrackerId}
+                propagation={propagation}
+                onPropagate={handlePropagate}
+                onCancelPropagation={() => propagationAbortRef.current?.abort()}
             />
          </div>
 
          {/* Right Sidebar for Spatial Intelligence */}
          <div className={`transition-all duration-300 ease-in-out border-l border-zinc-800 ${showSpatialPanel ? 'w-80 translate-x-0' : 'w-0 translate-x-full opacity-0 overflow-hidden'}`}>
              <SpatialAnalysisPanel 
-                annotations={annotations} 
+                annotations={frameAnnotations} 
                 concepts={concepts}
                 isVisible={showSpatialPanel}
+                selectedAnnotationId={selectedAnnotationId}
+                onSelectAnnotation={setSelectedAnnotationId}
+                onReassignTrackId={handleReassignTrackId}
+                onSwapTrackIds={handleSwapTrackIds}
+                onRenumberTrackIds={handleRenumberTrackIds}
              />
          </div>
       </div>
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
+
+      {isDragOver && (
+        <div className="fixed inset-0 z-[90] bg-indigo-950/60 border-4 border-dashed border-indigo-500 flex items-center justify-center pointer-events-none">
+          <div className="text-indigo-200 text-sm font-medium flex items-center space-x-2">
+            <Upload size={18} />
+            <span>Drop images, videos or folders to add them to the dataset</span>
+          </div>
+        </div>
+      )}
+
+      {showProjectBrowser && (
+        <ProjectBrowser
+          projects={savedProjects}
+          currentProjectId={project?.id ?? null}
+          isLoading={isLoadingProjects}
+          onOpen={handleOpenProject}
+          onDelete={handleDeleteProject}
+          onNew={handleNewProject}
+          onClose={() => setShowProjectBrowser(false)}
+        />
+      )}
     </div>
   );
 }
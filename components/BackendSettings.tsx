@@ -0,0 +1,299 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DetectionBackend, getSamServerUrl, HealthStatus, setSamServerUrl } from '../services/detectionBackend';
+import { ModelType } from '../types';
+import { DEDUPE_MODES, DedupeMode, DedupeSettings } from '../utils/duplicates';
+import { PreprocessSettings } from '../services/preprocessing';
+import { getMockFixture, getMockSettings, MockFixture, MockSettings, parseMockFixture, setMockFixture, setMockSettings } from '../services/mockBackend';
+import { clearDetectionCache, countCachedDetections } from '../services/detectionCache';
+import { readFileAsText } from '../utils/download';
+import { Settings2, Activity, CheckCircle, XCircle, FileJson, X, Trash2 } from 'lucide-react';
+
+interface BackendSettingsProps {
+  backend: DetectionBackend;
+  health: HealthStatus | null;
+  onCheckHealth: () => void;
+  dedupe: DedupeSettings;
+  onDedupeChange: (settings: DedupeSettings) => void;
+  preprocess: PreprocessSettings;
+  onPreprocessChange: (settings: PreprocessSettings) => void;
+}
+
+const CAPABILITY_LABELS: Record<string, string> = {
+  textPrompts: 'Text',
+  pointPrompts: 'Points',
+  boxPrompts: 'Boxes',
+  masks: 'Masks',
+  spatialReasoning: 'Spatial'
+};
+
+export const BackendSettings: React.FC<BackendSettingsProps> = ({
+  backend,
+  health,
+  onCheckHealth,
+  dedupe,
+  onDedupeChange,
+  preprocess,
+  onPreprocessChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [serverUrl, setServerUrl] = useState(getSamServerUrl());
+  const [mockSettings, setMockSettingsState] = useState<MockSettings>(getMockSettings());
+  const [fixture, setFixture] = useState<MockFixture | null>(getMockFixture());
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerUrl(getSamServerUrl());
+    setMockSettingsState(getMockSettings());
+    setFixture(getMockFixture());
+    countCachedDetections().then(setCachedCount);
+  }, [isOpen]);
+
+  const updateMock = (patch: Partial<MockSettings>) => {
+    const next = { ...mockSettings, ...patch };
+    setMockSettingsState(next);
+    setMockSettings(next);
+  };
+
+  const loadFixture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = parseMockFixture(await readFileAsText(file), file.name);
+      setMockFixture(next);
+      setFixture(next);
+      setFixtureError(null);
+      onCheckHealth();
+    } catch (error) {
+      setFixtureError((error as Error).message);
+    }
+  };
+
+  const clearFixture = () => {
+    setMockFixture(null);
+    setFixture(null);
+    onCheckHealth();
+  };
+
+  const clearCache = async () => {
+    try {
+      await clearDetectionCache();
+    } catch (error) {
+      console.warn("Could not clear the detection cache", error);
+    }
+    setCachedCount(await countCachedDetections());
+  };
+
+  const saveUrl = () => {
+    setSamServerUrl(serverUrl);
+    onCheckHealth();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Detection backend settings"
+        className={`p-1.5 rounded-md transition-colors ${isOpen ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <Settings2 size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl z-50 p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-zinc-300">{backend.name}</span>
+            <button
+              onClick={onCheckHealth}
+              className="flex items-center space-x-1 text-[10px] text-zinc-400 hover:text-zinc-200"
+            >
+              <Activity size={12} />
+              <span>Check</span>
+            </button>
+          </div>
+
+          {health && (
+            <div className={`flex items-center space-x-2 text-xs ${health.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+              {health.ok ? <CheckCircle size={12} /> : <XCircle size={12} />}
+              <span className="truncate">{health.message || (health.ok ? 'Healthy' : 'Unavailable')}</span>
+              {health.latencyMs !== undefined && <span className="font-mono text-zinc-500">{health.latencyMs}ms</span>}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-1">
+            {Object.entries(backend.capabilities).map(([key, enabled]) => (
+              <span
+                key={key}
+                className={`text-[10px] px-1.5 py-0.5 rounded border ${enabled ? 'border-indigo-500/40 text-indigo-300 bg-indigo-900/20' : 'border-zinc-800 text-zinc-600 line-through'}`}
+              >
+                {CAPABILITY_LABELS[key] || key}
+              </span>
+            ))}
+          </div>
+
+          {backend.id === ModelType.SAM_SERVER && (
+            <div>
+              <label className="text-[10px] text-zinc-500 uppercase">Server URL</label>
+              <div className="flex items-center space-x-1 mt-1">
+                <input
+                  type="text"
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') saveUrl(); }}
+                  className="flex-1 bg-black border border-zinc-800 rounded text-xs py-1.5 px-2 text-zinc-300 focus:outline-none focus:border-indigo-500 font-mono"
+                />
+                <button
+                  onClick={saveUrl}
+                  className="px-2 py-1.5 rounded text-xs bg-indigo-600 hover:bg-indigo-500 text-white"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          {backend.id === ModelType.SAM3 && (
+            <div className="space-y-2">
+              <label className="text-[10px] text-zinc-500 uppercase">Mock simulation (seeded)</label>
+              <div className="grid grid-cols-2 gap-2 text-xs text-zinc-400">
+                <label className="flex items-center justify-between space-x-1">
+                  <span>Seed</span>
+                  <input
+                    type="text"
+                    value={mockSettings.seed}
+                    onChange={(e) => updateMock({ seed: e.target.value })}
+                    className="w-20 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between space-x-1">
+                  <span>Latency</span>
+                  <input
+                    type="number" min={0} max={10000} step={100}
+                    value={mockSettings.latencyMs}
+                    onChange={(e) => updateMock({ latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-20 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between space-x-1">
+                  <span>Failures</span>
+                  <input
+                    type="number" min={0} max={1} step={0.05}
+                    value={mockSettings.failureRate}
+                    onChange={(e) => updateMock({ failureRate: Math.max(0, Math.min(1, Number(e.target.value))) })}
+                    className="w-20 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between space-x-1">
+                  <span>Partial</span>
+                  <input
+                    type="number" min={0} max={1} step={0.05}
+                    value={mockSettings.partialRate}
+                    onChange={(e) => updateMock({ partialRate: Math.max(0, Math.min(1, Number(e.target.value))) })}
+                    className="w-20 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+                  />
+                </label>
+              </div>
+              <input ref={fixtureInputRef} type="file" accept=".json,application/json" className="hidden" onChange={loadFixture} />
+              <div className="flex items-center space-x-2 text-xs">
+                <button
+                  onClick={() => fixtureInputRef.current?.click()}
+                  className="flex items-center space-x-1 px-2 py-1 rounded border border-zinc-800 bg-black text-zinc-400 hover:text-zinc-200"
+                >
+                  <FileJson size={12} />
+                  <span>{fixture ? 'Replace fixture' : 'Load fixture'}</span>
+                </button>
+                {fixture && (
+                  <span className="flex items-center space-x-1 min-w-0 text-zinc-500">
+                    <span className="truncate" title={fixture.name}>{fixture.name} ({Object.keys(fixture.images).length})</span>
+                    <button onClick={clearFixture} title="Use seeded random boxes" className="hover:text-zinc-300"><X size={12} /></button>
+                  </span>
+                )}
+              </div>
+              {fixtureError && <div className="text-[10px] text-red-400">{fixtureError}</div>}
+            </div>
+          )}
+
+          <div>
+            <label className="text-[10px] text-zinc-500 uppercase">Duplicate detections</label>
+            <div className="flex items-center space-x-1 mt-1">
+              <select
+                value={dedupe.mode}
+                onChange={(e) => onDedupeChange({ ...dedupe, mode: e.target.value as DedupeMode })}
+                className="flex-1 bg-black border border-zinc-800 rounded text-xs py-1.5 px-2 text-zinc-300 focus:outline-none focus:border-indigo-500"
+              >
+                {DEDUPE_MODES.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+              <span className="text-[10px] text-zinc-500">IoU ≥</span>
+              <input
+                type="number" min={0.1} max={0.95} step={0.05}
+                value={dedupe.iouThreshold}
+                onChange={(e) => onDedupeChange({ ...dedupe, iouThreshold: Math.max(0.1, Math.min(0.95, Number(e.target.value))) })}
+                className="w-14 bg-black border border-zinc-800 rounded text-xs py-1.5 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-[10px] text-zinc-500 uppercase">Text prompt preprocessing</label>
+            <div className="flex items-center space-x-1 mt-1 text-xs text-zinc-400">
+              <span className="flex-1">Max edge</span>
+              <input
+                type="number" min={256} max={4096} step={128}
+                value={preprocess.maxEdge}
+                onChange={(e) => onPreprocessChange({ ...preprocess, maxEdge: Math.max(256, Number(e.target.value) || 256) })}
+                className="w-20 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+              />
+              <span className="text-[10px] text-zinc-600">px</span>
+            </div>
+            <label className="flex items-center space-x-2 mt-2 text-xs text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preprocess.tiling}
+                onChange={(e) => onPreprocessChange({ ...preprocess, tiling: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <span>Tile large images (small objects, aerial)</span>
+            </label>
+            {preprocess.tiling && (
+              <div className="flex items-center space-x-1 mt-2 text-xs text-zinc-400">
+                <span className="flex-1">Tile</span>
+                <input
+                  type="number" min={256} max={4096} step={128}
+                  value={preprocess.tileSize}
+                  onChange={(e) => onPreprocessChange({ ...preprocess, tileSize: Math.max(256, Number(e.target.value) || 256) })}
+                  className="w-20 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+                />
+                <span className="text-[10px] text-zinc-600">px, overlap</span>
+                <input
+                  type="number" min={0} max={0.5} step={0.05}
+                  value={preprocess.tileOverlap}
+                  onChange={(e) => onPreprocessChange({ ...preprocess, tileOverlap: Math.max(0, Math.min(0.5, Number(e.target.value))) })}
+                  className="w-14 bg-black border border-zinc-800 rounded text-xs py-1 px-1 text-zinc-300 font-mono focus:outline-none focus:border-indigo-500"
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="text-[10px] text-zinc-500 uppercase">Detection cache</label>
+            <div className="flex items-center justify-between mt-1 text-xs text-zinc-400">
+              <span>{cachedCount === null ? '…' : `${cachedCount} cached result${cachedCount === 1 ? '' : 's'}`}</span>
+              <button
+                onClick={clearCache}
+                disabled={!cachedCount}
+                className="flex items-center space-x-1 px-2 py-1 rounded border border-zinc-800 bg-black text-zinc-400 hover:text-zinc-200 disabled:opacity-40"
+              >
+                <Trash2 size={12} />
+                <span>Clear</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
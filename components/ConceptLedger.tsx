@@ -1,22 +1,73 @@
 
 import React from 'react';
 import { Concept } from '../types';
-import { Eye, EyeOff, Trash2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Eye, EyeOff, Trash2, CheckCircle, AlertTriangle, SlidersHorizontal, CheckCheck, X, RotateCcw } from 'lucide-react';
+import { ConfidenceThresholds, thresholdFor, withConceptThreshold } from '../utils/thresholds';
+
+export interface InstanceCounts {
+  image: number; // On the active image
+  dataset: number; // Across all images
+}
 
 interface ConceptLedgerProps {
   concepts: Concept[];
+  instanceCounts: Record<string, InstanceCounts>;
+  showDatasetCounts: boolean;
   activeConceptId: string | null;
   onSelectConcept: (id: string) => void;
   onToggleVisibility: (id: string) => void;
   onDelete: (id: string) => void;
+  thresholds: ConfidenceThresholds;
+  onThresholdsChange: (thresholds: ConfidenceThresholds) => void;
+  histograms: Record<string, number[]>; // Dataset-wide score counts per concept
+  verifyAbove: number;
+  onVerifyAboveChange: (value: number) => void;
+  bulkCounts: { verify: number; reject: number };
+  onVerifyAllAbove: () => void;
+  onRejectAllBelow: () => void;
 }
 
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const ScoreHistogram: React.FC<{ counts: number[]; threshold: number; color: string }> = ({ counts, threshold, color }) => {
+  const peak = Math.max(1, ...counts);
+  return (
+    <div className="relative h-8 flex items-end space-x-px">
+      {counts.map((count, i) => (
+        <div
+          key={i}
+          className="flex-1 rounded-t-sm"
+          title={`${percent(i / counts.length)}-${percent((i + 1) / counts.length)}: ${count}`}
+          style={{
+            height: `${count ? Math.max(8, (count / peak) * 100) : 0}%`,
+            backgroundColor: color,
+            opacity: (i + 1) / counts.length <= threshold ? 0.25 : 0.8
+          }}
+        />
+      ))}
+      {threshold > 0 && (
+        <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: `${threshold * 100}%` }} />
+      )}
+    </div>
+  );
+};
+
 export const ConceptLedger: React.FC<ConceptLedgerProps> = ({
   concepts,
+  instanceCounts,
+  showDatasetCounts,
   activeConceptId,
   onSelectConcept,
   onToggleVisibility,
-  onDelete
+  onDelete,
+  thresholds,
+  onThresholdsChange,
+  histograms,
+  verifyAbove,
+  onVerifyAboveChange,
+  bulkCounts,
+  onVerifyAllAbove,
+  onRejectAllBelow
 }) => {
   return (
     <div className="w-80 bg-zinc-900 border-r border-zinc-800 flex flex-col h-full">
@@ -25,6 +76,47 @@ export const ConceptLedger: React.FC<ConceptLedgerProps> = ({
         <p className="text-xs text-zinc-500 mt-1">Select a concept to label</p>
       </div>
 
+      {concepts.length > 0 && (
+        <div className="p-4 border-b border-zinc-800 space-y-2 text-xs">
+          <div className="flex items-center justify-between text-zinc-400">
+            <span className="flex items-center"><SlidersHorizontal size={12} className="mr-2" /> Hide below</span>
+            <span className="font-mono text-zinc-300">{percent(thresholds.global)}</span>
+          </div>
+          <input
+            type="range" min={0} max={1} step={0.05}
+            value={thresholds.global}
+            onChange={(e) => onThresholdsChange({ ...thresholds, global: Number(e.target.value) })}
+            className="w-full accent-indigo-500"
+          />
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={onVerifyAllAbove}
+              disabled={bulkCounts.verify === 0}
+              title="Verify every unverified annotation in the dataset at or above this score"
+              className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 rounded border border-zinc-800 bg-black text-zinc-400 hover:text-emerald-400 disabled:opacity-50"
+            >
+              <CheckCheck size={12} />
+              <span>Verify {bulkCounts.verify} ≥</span>
+            </button>
+            <input
+              type="number" min={0} max={1} step={0.05}
+              value={verifyAbove}
+              onChange={(e) => onVerifyAboveChange(Math.max(0, Math.min(1, Number(e.target.value))))}
+              className="w-14 bg-black border border-zinc-800 rounded px-1 py-1 font-mono text-zinc-300"
+            />
+          </div>
+          <button
+            onClick={onRejectAllBelow}
+            disabled={bulkCounts.reject === 0}
+            title="Delete every unverified annotation in the dataset below its concept's threshold"
+            className="w-full flex items-center justify-center space-x-1 px-2 py-1 rounded border border-zinc-800 bg-black text-zinc-400 hover:text-red-400 disabled:opacity-50"
+          >
+            <X size={12} />
+            <span>Reject {bulkCounts.reject} below threshold</span>
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-2 space-y-2">
         {concepts.length === 0 && (
           <div className="text-center p-8 text-zinc-600 text-sm">
@@ -73,7 +165,16 @@ export const ConceptLedger: React.FC<ConceptLedgerProps> = ({
             <div className="grid grid-cols-2 gap-2 mb-2">
               <div className="bg-zinc-900 rounded p-2 flex flex-col">
                 <span className="text-[10px] text-zinc-500 uppercase">Instances</span>
-                <span className="text-lg font-mono leading-tight">{concept.instanceCount}</span>
+                <div className="flex items-baseline space-x-1">
+                  <span className="text-lg font-mono leading-tight" title="On this image">
+                    {instanceCounts[concept.id]?.image ?? 0}
+                  </span>
+                  {showDatasetCounts && (
+                    <span className="text-[10px] font-mono text-zinc-500" title="Across the dataset">
+                      / {instanceCounts[concept.id]?.dataset ?? 0}
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="bg-zinc-900 rounded p-2 flex flex-col">
                 <span className="text-[10px] text-zinc-500 uppercase">Presence</span>
@@ -90,6 +191,35 @@ export const ConceptLedger: React.FC<ConceptLedgerProps> = ({
               </div>
             </div>
 
+            {/* Score Histogram; a concept threshold overrides the global one */}
+            <div className="mb-2" onClick={(e) => e.stopPropagation()}>
+              <ScoreHistogram
+                counts={histograms[concept.id] || []}
+                threshold={thresholdFor(thresholds, concept.id)}
+                color={concept.color}
+              />
+              <div className="flex items-center space-x-2 mt-1">
+                <input
+                  type="range" min={0} max={1} step={0.05}
+                  value={thresholdFor(thresholds, concept.id)}
+                  onChange={(e) => onThresholdsChange(withConceptThreshold(thresholds, concept.id, Number(e.target.value)))}
+                  className="flex-1 h-1 accent-zinc-400"
+                />
+                <span className={`w-8 text-right text-[10px] font-mono ${concept.id in thresholds.perConcept ? 'text-indigo-300' : 'text-zinc-500'}`}>
+                  {percent(thresholdFor(thresholds, concept.id))}
+                </span>
+                {concept.id in thresholds.perConcept && (
+                  <button
+                    onClick={() => onThresholdsChange(withConceptThreshold(thresholds, concept.id, null))}
+                    title="Use the global threshold"
+                    className="text-zinc-500 hover:text-zinc-300"
+                  >
+                    <RotateCcw size={10} />
+                  </button>
+                )}
+              </div>
+            </div>
+
             {/* Presence Bar */}
             <div className="w-full h-1 bg-zinc-800 rounded-full overflow-hidden">
               <div 
@@ -0,0 +1,118 @@
+
+import React, { useEffect, useRef } from 'react';
+import { DatasetImage } from '../types';
+import { ChevronLeft, ChevronRight, SkipBack, SkipForward, CheckCircle } from 'lucide-react';
+
+export interface ImageProgress {
+  total: number;
+  verified: number;
+}
+
+interface DatasetGalleryProps {
+  images: DatasetImage[];
+  activeImageId: string;
+  progress: Record<string, ImageProgress>;
+  onSelectImage: (id: string) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onPreviousUnverified: () => void;
+  onNextUnverified: () => void;
+}
+
+export const DatasetGallery: React.FC<DatasetGalleryProps> = ({
+  images,
+  activeImageId,
+  progress,
+  onSelectImage,
+  onPrevious,
+  onNext,
+  onPreviousUnverified,
+  onNextUnverified
+}) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const activeIndex = images.findIndex(img => img.id === activeImageId);
+
+  const totals: ImageProgress = images.reduce((acc: ImageProgress, img: DatasetImage) => {
+    const p = progress[img.id];
+    return p ? { total: acc.total + p.total, verified: acc.verified + p.verified } : acc;
+  }, { total: 0, verified: 0 });
+  const completeImages = images.filter(img => {
+    const p = progress[img.id];
+    return p && p.total > 0 && p.verified === p.total;
+  }).length;
+
+  // Keep the active thumbnail in view while navigating with the buttons
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }, [activeImageId]);
+
+  return (
+    <div className="h-24 bg-zinc-900 border-t border-zinc-800 flex shrink-0">
+      {/* Navigation & Dataset Progress */}
+      <div className="w-44 shrink-0 border-r border-zinc-800 px-3 py-2 flex flex-col justify-between">
+        <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase">
+          <span>Image</span>
+          <span className="font-mono text-zinc-300">{activeIndex + 1} / {images.length}</span>
+        </div>
+        <div className="flex items-center justify-between text-[10px] text-zinc-500">
+          <span className="flex items-center"><CheckCircle size={10} className="mr-1 text-emerald-500" />{completeImages} done</span>
+          <span className="font-mono">{totals.total - totals.verified} unverified</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <button onClick={onPreviousUnverified} title="Previous image with unverified masks" className="p-1 rounded hover:bg-zinc-800 text-zinc-400">
+            <SkipBack size={14} />
+          </button>
+          <button onClick={onPrevious} title="Previous image" className="p-1 rounded hover:bg-zinc-800 text-zinc-400">
+            <ChevronLeft size={14} />
+          </button>
+          <button onClick={onNext} title="Next image" className="p-1 rounded hover:bg-zinc-800 text-zinc-400">
+            <ChevronRight size={14} />
+          </button>
+          <button onClick={onNextUnverified} title="Next image with unverified masks" className="p-1 rounded hover:bg-zinc-800 text-zinc-400">
+            <SkipForward size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Filmstrip */}
+      <div className="flex-1 overflow-x-auto overflow-y-hidden flex items-center space-x-2 px-3 custom-scrollbar">
+        {images.map(image => {
+          const p = progress[image.id] || { total: 0, verified: 0 };
+          const isActive = image.id === activeImageId;
+          const isComplete = p.total > 0 && p.verified === p.total;
+
+          return (
+            <button
+              key={image.id}
+              ref={isActive ? activeRef : undefined}
+              onClick={() => onSelectImage(image.id)}
+              title={image.fileName}
+              className={`relative h-16 w-24 shrink-0 rounded overflow-hidden border-2 transition-all ${
+                isActive ? 'border-indigo-500 shadow-md shadow-indigo-900/30' : 'border-zinc-800 hover:border-zinc-600 opacity-70 hover:opacity-100'
+              }`}
+            >
+              {image.mediaType === 'video' ? (
+                <video src={image.src} muted preload="metadata" className="w-full h-full object-cover pointer-events-none" />
+              ) : (
+                <img src={image.src} alt={image.fileName} loading="lazy" className="w-full h-full object-cover pointer-events-none" />
+              )}
+              <div className="absolute bottom-0 left-0 right-0 bg-black/70 px-1 flex items-center justify-between text-[9px] font-mono">
+                <span className={p.total - p.verified > 0 ? 'text-amber-400' : 'text-zinc-400'}>
+                  {p.total - p.verified}
+                </span>
+                <span className={isComplete ? 'text-emerald-400' : 'text-zinc-400'}>
+                  {p.verified}/{p.total}
+                </span>
+              </div>
+              {p.total > 0 && (
+                <div className="absolute top-0 left-0 right-0 h-0.5 bg-zinc-800">
+                  <div className="h-full bg-emerald-500" style={{ width: `${(p.verified / p.total) * 100}%` }} />
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+
+import React, { useState } from 'react';
+import { Annotation, Concept } from '../types';
+import { Copy, Combine, X } from 'lucide-react';
+import { DuplicatePair, duplicatePairKey } from '../utils/duplicates';
+import { trackLabel } from '../utils/identity';
+
+interface DuplicateReviewProps {
+  pairs: DuplicatePair[];
+  concepts: Concept[];
+  canMerge: boolean; // Fusing is for still images; video tracks keep one side
+  onSelect: (id: string) => void;
+  onKeep: (keepId: string, dropId: string) => void;
+  onMerge: (pair: DuplicatePair) => void;
+  onDismiss: (pair: DuplicatePair) => void;
+}
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({
+  pairs,
+  concepts,
+  canMerge,
+  onSelect,
+  onKeep,
+  onMerge,
+  onDismiss
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const label = (ann: Annotation) => trackLabel(concepts.find(c => c.id === ann.conceptId)?.name || 'object', ann);
+
+  const side = (keep: Annotation, drop: Annotation) => (
+    <button
+      onClick={() => onKeep(keep.id, drop.id)}
+      onMouseEnter={() => onSelect(keep.id)}
+      title={`Keep ${label(keep)} and delete ${label(drop)}`}
+      className="flex-1 min-w-0 text-left px-2 py-1 rounded border border-zinc-800 hover:border-emerald-500/50 hover:bg-emerald-900/10"
+    >
+      <div className="truncate text-zinc-300">Keep {label(keep)}</div>
+      <div className="font-mono text-[10px] text-zinc-500">
+        {(keep.confidence * 100).toFixed(0)}%{keep.isVerified ? ' · verified' : ''}
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={pairs.length === 0 && !isOpen}
+        title="Same-concept annotations that overlap enough to be one object"
+        className={`flex items-center space-x-1.5 px-2 py-1 rounded border text-xs disabled:opacity-50 ${
+          pairs.length > 0 ? 'border-amber-500/40 bg-amber-900/10 text-amber-300 hover:text-amber-200' : 'border-zinc-800 bg-black text-zinc-400'
+        }`}
+      >
+        <Copy size={12} />
+        <span>Duplicates{pairs.length > 0 ? ` (${pairs.length})` : ''}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl z-50 overflow-hidden">
+          <div className="px-3 py-2 border-b border-zinc-800 text-[10px] text-zinc-500 uppercase tracking-wider">
+            Possible Duplicates
+          </div>
+          {pairs.length === 0 ? (
+            <div className="px-3 py-4 text-center text-xs text-zinc-600">No overlapping pairs on this image.</div>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-zinc-800">
+              {pairs.map(pair => (
+                <div key={duplicatePairKey(pair)} className="p-2 space-y-1.5 text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center space-x-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: concepts.find(c => c.id === pair.a.conceptId)?.color }} />
+                      <span className="text-zinc-400">IoU <span className="font-mono text-zinc-200">{(pair.iou * 100).toFixed(0)}%</span></span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <button
+                        onClick={() => onMerge(pair)}
+                        disabled={!canMerge}
+                        title={canMerge ? 'Fuse into one confidence-weighted annotation' : 'Tracks cannot be fused; keep one side'}
+                        className="p-1 rounded text-zinc-400 hover:text-indigo-300 disabled:opacity-30"
+                      >
+                        <Combine size={12} />
+                      </button>
+                      <button
+                        onClick={() => onDismiss(pair)}
+                        title="Not a duplicate"
+                        className="p-1 rounded text-zinc-400 hover:text-zinc-200"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  </div>
+                  <div className="flex items-stretch space-x-1">
+                    {side(pair.a, pair.b)}
+                    {side(pair.b, pair.a)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
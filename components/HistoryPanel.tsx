@@ -0,0 +1,88 @@
+
+import React, { useState } from 'react';
+import { HistoryCommand, HistoryState } from '../utils/history';
+import { Undo2, Redo2, History } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (commandId: number) => void;
+}
+
+const MAX_VISIBLE = 12;
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onUndo,
+  onRedo,
+  onJump
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+
+  // Newest first: pending redos on top (dimmed), then applied commands
+  const redoable = history.future.slice(0, MAX_VISIBLE).reverse();
+  const applied = history.past.slice(-MAX_VISIBLE).reverse();
+
+  const renderRow = (command: HistoryCommand, isApplied: boolean, isCurrent: boolean) => (
+    <button
+      key={command.id}
+      onClick={() => { onJump(command.id); }}
+      className={`w-full text-left px-3 py-1.5 text-xs flex items-center justify-between hover:bg-zinc-800 ${
+        isApplied ? 'text-zinc-300' : 'text-zinc-600 italic'
+      } ${isCurrent ? 'bg-indigo-500/10 border-l-2 border-indigo-500' : 'border-l-2 border-transparent'}`}
+    >
+      <span className="truncate">{command.label}</span>
+      <span className="font-mono text-[10px] text-zinc-600 ml-2 shrink-0">
+        {new Date(command.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="relative flex items-center bg-black rounded p-1 border border-zinc-800">
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+        className="p-1.5 rounded text-zinc-400 hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed"
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+        className="p-1.5 rounded text-zinc-400 hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed"
+      >
+        <Redo2 size={16} />
+      </button>
+      <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="History"
+        className={`p-1.5 rounded ${isOpen ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <History size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl z-50 overflow-hidden">
+          <div className="px-3 py-2 border-b border-zinc-800 text-[10px] text-zinc-500 uppercase tracking-wider">
+            Recent Actions
+          </div>
+          {applied.length === 0 && redoable.length === 0 ? (
+            <div className="px-3 py-4 text-center text-xs text-zinc-600">Nothing to undo yet.</div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto py-1">
+              {redoable.map(command => renderRow(command, false, false))}
+              {applied.map((command, index) => renderRow(command, true, index === 0))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
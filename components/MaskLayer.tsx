@@ -0,0 +1,80 @@
+
+import React, { useEffect, useRef } from 'react';
+import { Annotation, Concept, RLEMask } from '../types';
+import { decodeRLE } from '../utils/mask';
+
+interface MaskLayerProps {
+  annotations: Annotation[];
+  concepts: Concept[];
+  selectedAnnotationId: string | null;
+  hiddenAnnotationId?: string | null; // Mask being moved or resized, drawn again once the edit commits
+}
+
+// Decoding is the expensive part, so each mask is rasterized once per color
+const bitmapCache = new WeakMap<RLEMask, { color: string; canvas: HTMLCanvasElement }>();
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const getMaskBitmap = (mask: RLEMask, color: string): HTMLCanvasElement => {
+  const cached = bitmapCache.get(mask);
+  if (cached && cached.color === color) return cached.canvas;
+
+  const [height, width] = mask.size;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(width, height);
+  const bits = decodeRLE(mask);
+  const [r, g, b] = hexToRgb(color);
+  for (let i = 0; i < bits.length; i++) {
+    if (!bits[i]) continue;
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+
+  bitmapCache.set(mask, { color, canvas });
+  return canvas;
+};
+
+// Pixel masks are painted on a canvas beneath the SVG outlines
+export const MaskLayer: React.FC<MaskLayerProps> = ({
+  annotations,
+  concepts,
+  selectedAnnotationId,
+  hiddenAnnotationId
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const masked = annotations.filter((ann: Annotation) => ann.type === 'mask' && ann.mask && ann.id !== hiddenAnnotationId);
+    const width = Math.max(1, ...masked.map((ann: Annotation) => ann.mask!.size[1]));
+    const height = Math.max(1, ...masked.map((ann: Annotation) => ann.mask!.size[0]));
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    ctx.imageSmoothingEnabled = false;
+
+    masked.forEach((ann: Annotation) => {
+      const concept = concepts.find((c: Concept) => c.id === ann.conceptId || c.name === ann.conceptId);
+      if (!concept || !concept.isVisible) return;
+      ctx.globalAlpha = ann.id === selectedAnnotationId ? 0.6 : ann.isVerified ? 0.45 : 0.3;
+      ctx.drawImage(getMaskBitmap(ann.mask!, concept.color), 0, 0, width, height);
+    });
+    ctx.globalAlpha = 1;
+  }, [annotations, concepts, selectedAnnotationId, hiddenAnnotationId]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
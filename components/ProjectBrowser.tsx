@@ -0,0 +1,107 @@
+
+import React from 'react';
+import { ProjectSummary } from '../services/projectStore';
+import { FolderOpen, Plus, Trash2, X, Clock, CheckCircle } from 'lucide-react';
+
+interface ProjectBrowserProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  isLoading: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (ts: number) => new Date(ts).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  projects,
+  currentProjectId,
+  isLoading,
+  onOpen,
+  onDelete,
+  onNew,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-[560px] max-h-[70vh] bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider flex items-center">
+              <FolderOpen size={16} className="mr-2 text-indigo-400" />
+              Saved Projects
+            </h2>
+            <p className="text-xs text-zinc-500 mt-1">Projects autosave to this browser</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-500 hover:text-zinc-300">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-2">
+          {isLoading && (
+            <div className="text-center p-8 text-zinc-600 text-sm">Loading projects...</div>
+          )}
+
+          {!isLoading && projects.length === 0 && (
+            <div className="text-center p-8 text-zinc-600 text-sm">
+              No saved projects yet.<br/>Start labeling and your work is saved automatically.
+            </div>
+          )}
+
+          {!isLoading && projects.map(project => (
+            <div
+              key={project.id}
+              onClick={() => onOpen(project.id)}
+              className={`rounded-lg p-3 border transition-all cursor-pointer group flex items-center justify-between ${
+                currentProjectId === project.id
+                  ? 'bg-zinc-800 border-indigo-500'
+                  : 'bg-zinc-850 border-zinc-800 hover:border-zinc-700 hover:bg-zinc-800'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-zinc-200 truncate">{project.name}</div>
+                <div className="flex items-center space-x-3 text-[10px] text-zinc-500 mt-1">
+                  <span className="flex items-center"><Clock size={10} className="mr-1" />{formatTimestamp(project.updatedAt)}</span>
+                  <span>{project.imageCount} images</span>
+                  <span>{project.conceptCount} concepts</span>
+                  <span className="flex items-center">
+                    <CheckCircle size={10} className="mr-1 text-emerald-500" />
+                    {project.verifiedCount}/{project.annotationCount} verified
+                  </span>
+                </div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(project.id); }}
+                title="Delete project"
+                className="p-1 rounded text-zinc-500 opacity-0 group-hover:opacity-100 hover:bg-red-900/30 hover:text-red-400 transition-opacity"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-3 border-t border-zinc-800 flex justify-end">
+          <button
+            onClick={onNew}
+            className="flex items-center space-x-2 px-3 py-1.5 rounded-md text-xs font-medium bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+          >
+            <Plus size={14} />
+            <span>New Project</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+
+import React from 'react';
+import { Annotation, Concept } from '../types';
+import { Check, X, Pencil, SkipForward, ClipboardCheck } from 'lucide-react';
+import { trackLabel } from '../utils/identity';
+
+interface ReviewBarProps {
+  current: Annotation | undefined;
+  concepts: Concept[];
+  remaining: number;
+  total: number; // Unverified count when review of this image started
+  hasNextImage: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+  onEdit: () => void;
+  onNext: () => void;
+  onNextImage: () => void;
+  onStop: () => void;
+}
+
+const Key: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1 py-px rounded border border-zinc-700 bg-zinc-800 font-mono text-[10px] text-zinc-300">{children}</kbd>
+);
+
+// Keyboard triage of model pre-labels; the keys themselves are handled in App
+export const ReviewBar: React.FC<ReviewBarProps> = ({
+  current,
+  concepts,
+  remaining,
+  total,
+  hasNextImage,
+  onAccept,
+  onReject,
+  onEdit,
+  onNext,
+  onNextImage,
+  onStop
+}) => {
+  const done = Math.max(0, total - remaining);
+  const concept = current ? concepts.find(c => c.id === current.conceptId) : undefined;
+
+  return (
+    <div className="h-10 bg-indigo-950/40 border-b border-indigo-500/30 flex items-center justify-between px-4 text-xs select-none">
+      <div className="flex items-center space-x-3">
+        <span className="flex items-center text-indigo-300 font-semibold uppercase tracking-wider">
+          <ClipboardCheck size={14} className="mr-2" /> Review
+        </span>
+        <span className="font-mono text-zinc-400">{done} / {Math.max(total, done)}</span>
+        <span className="w-32 h-1.5 bg-zinc-800 rounded overflow-hidden">
+          <span className="block h-full bg-indigo-500 transition-all" style={{ width: `${total ? (done / total) * 100 : 100}%` }} />
+        </span>
+        <span className="text-zinc-500">{remaining} remaining</span>
+        {current && concept && (
+          <span className="flex items-center space-x-2 pl-3 border-l border-zinc-700">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: concept.color }} />
+            <span className="text-zinc-200 font-medium">{trackLabel(concept.name, current)}</span>
+            <span className={`font-mono ${current.confidence < 0.5 ? 'text-red-400' : current.confidence < 0.8 ? 'text-yellow-400' : 'text-zinc-400'}`}>
+              {(current.confidence * 100).toFixed(0)}%
+            </span>
+          </span>
+        )}
+        {!current && (
+          <span className="text-emerald-400 pl-3 border-l border-zinc-700">All annotations here are reviewed</span>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-3 text-zinc-500">
+        {current ? (
+          <>
+            <button onClick={onAccept} className="flex items-center space-x-1 hover:text-emerald-400"><Key>A</Key><Check size={12} /><span>Accept</span></button>
+            <button onClick={onReject} className="flex items-center space-x-1 hover:text-red-400"><Key>R</Key><X size={12} /><span>Reject</span></button>
+            <button onClick={onEdit} className="flex items-center space-x-1 hover:text-zinc-200"><Key>E</Key><Pencil size={12} /><span>Edit</span></button>
+            <button onClick={onNext} className="flex items-center space-x-1 hover:text-zinc-200"><Key>Tab</Key><SkipForward size={12} /><span>Skip</span></button>
+            <span className="flex items-center space-x-1" title={concepts.slice(0, 9).map((c, i) => `${i + 1}: ${c.name}`).join('\n')}>
+              <Key>1-9</Key><span>Concept</span>
+            </span>
+          </>
+        ) : hasNextImage && (
+          <button onClick={onNextImage} className="flex items-center space-x-1 text-indigo-300 hover:text-indigo-200">
+            <Key>Tab</Key><SkipForward size={12} /><span>Next image to review</span>
+          </button>
+        )}
+        <button onClick={onStop} className="flex items-center space-x-1 hover:text-zinc-200"><Key>Esc</Key><span>Done</span></button>
+      </div>
+    </div>
+  );
+};
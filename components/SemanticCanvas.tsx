@@ -1,10 +1,49 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Annotation, Concept, ToolType, Point, BoundingBox } from '../types';
-import { Maximize2, Check, X, Move3d, Eye, Layers, Compass, Info } from 'lucide-react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { Annotation, Concept, ToolType, Point, PointPrompt, BoundingBox, MediaType } from '../types';
+import { Maximize2, Check, X, Move3d, Eye, Layers, Compass, Info, ZoomIn, ZoomOut } from 'lucide-react';
+import { BOX_HANDLES, BoxHandle, applyMaskTransform, boxFromPoints, deleteVertex, edgeMidpoints, handlePosition, insertVertex, moveVertex, resizeAnnotation, translateAnnotation } from '../utils/geometry';
+import { MaskLayer } from './MaskLayer';
+import { boxToMask, decodeRLE, encodeRLE, maskToBox, polygonToBits } from '../utils/mask';
+import { createEdgeSnapFilter, stampSegment, StampFilter } from '../utils/brush';
+import { frameToTime, isKeyframe, timeToFrame } from '../utils/keyframes';
+import { trackLabel } from '../utils/identity';
+import { actualSizeZoom, FIT_VIEWPORT, frameBox, mediaAspect, panBy, Viewport, viewportLayout, visibleRegion, zoomAt } from '../utils/viewport';
+
+// In-progress geometry edit on the selected annotation (select tool)
+type EditDrag =
+  | { kind: 'move'; origin: Point; original: Annotation }
+  | { kind: 'resize'; handle: BoxHandle; original: Annotation }
+  | { kind: 'vertex'; index: number; original: Annotation; label: string };
+
+// In-progress brush or eraser stroke, painted into a working copy of the target's mask
+interface BrushStroke {
+  target: Annotation | null; // null paints a new mask annotation for the active concept
+  conceptId: string;
+  value: 0 | 1; // 1 paints, 0 erases
+  bits: Uint8Array;
+  width: number;
+  height: number;
+  color: [number, number, number];
+  preview: ImageData;
+  last: Point; // Image pixels
+  filter?: StampFilter;
+}
+
+const HANDLE_CURSORS: Record<BoxHandle, string> = {
+  nw: 'nwse-resize', se: 'nwse-resize', ne: 'nesw-resize', sw: 'nesw-resize',
+  n: 'ns-resize', s: 'ns-resize', e: 'ew-resize', w: 'ew-resize'
+};
 
 interface SemanticCanvasProps {
   imageUrl: string;
+  mediaType: MediaType;
+  videoRef: React.RefObject<HTMLVideoElement>; // Shared with App, which captures frames for detection
+  currentFrame: number;
+  fps: number;
+  isPlaying: boolean;
+  onFrameChange: (frame: number) => void; // Reported by the video while playing
+  onPlaybackEnd: () => void;
   annotations: Annotation[];
   concepts: Concept[];
   selectedTool: ToolType;
@@ -12,11 +51,27 @@ interface SemanticCanvasProps {
   onVerify: (id: string) => void;
   onReject: (id: string) => void;
   onAddAnnotation: (annotation: Partial<Annotation>) => void;
+  selectedAnnotationId: string | null;
+  onSelectAnnotation: (id: string | null) => void;
+  onUpdateAnnotation: (annotation: Annotation, label: string) => void;
+  onPointPrompt: (prompt: PointPrompt) => void;
+  pendingPrompt: PointPrompt | null; // Click awaiting a backend response
+  imageSize: { width: number; height: number }; // Natural pixel size, 0 until the image has loaded
+  brushRadius: number; // Image pixels
+  snapToEdges: boolean;
   showSpatialOverlay: boolean;
+  focusBox?: BoundingBox | null; // Zooms in to frame this box, e.g. the annotation under review
 }
 
 export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
   imageUrl,
+  mediaType,
+  videoRef,
+  currentFrame,
+  fps,
+  isPlaying,
+  onFrameChange,
+  onPlaybackEnd,
   annotations,
   concepts,
   selectedTool,
@@ -24,27 +79,433 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
   onVerify,
   onReject,
   onAddAnnotation,
-  showSpatialOverlay
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onUpdateAnnotation,
+  onPointPrompt,
+  pendingPrompt,
+  imageSize,
+  brushRadius,
+  snapToEdges,
+  showSpatialOverlay,
+  focusBox
 }) => {
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  const viewSizeRef = useRef(viewSize);
+  const [viewport, setViewport] = useState<Viewport>(FIT_VIEWPORT);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [panOrigin, setPanOrigin] = useState<Point | null>(null);
+  // The canvas is sized to the media, so pointer and overlay coordinates are image-normalized
+  const aspect = mediaAspect(imageSize.width, imageSize.height);
+  const aspectRef = useRef(aspect);
+  aspectRef.current = aspect;
+  const layout = viewportLayout(viewport, viewSize.width, viewSize.height, aspect);
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const imageRef = useRef<HTMLImageElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<BrushStroke | null>(null);
+  const [paintingId, setPaintingId] = useState<string | null>(null);
+  const [brushCursor, setBrushCursor] = useState<Point | null>(null);
+  const isBrushTool = selectedTool === 'brush' || selectedTool === 'eraser';
+  const [editDrag, setEditDrag] = useState<EditDrag | null>(null);
+  const [draft, setDraftState] = useState<Annotation | null>(null);
+  const draftRef = useRef<Annotation | null>(null);
+  const setDraft = (next: Annotation | null) => {
+    draftRef.current = next;
+    setDraftState(next);
+  };
   
   const getConcept = (id: string) => concepts.find(c => c.id === id || c.name === id);
   const activeConcept = concepts.find(c => c.id === activeConceptId);
 
+  // Maps a pointer event through the viewport to normalized image coordinates. The layout
+  // is read from a ref so window listeners set up at drag start follow zooms and pans.
   const getRelativeCoords = (e: React.MouseEvent | MouseEvent) => {
-    if (!containerRef.current) return { x: 0, y: 0 };
-    const rect = containerRef.current.getBoundingClientRect();
+    const layout = layoutRef.current;
+    if (!viewRef.current || !layout.width || !layout.height) return { x: 0, y: 0 };
+    const rect = viewRef.current.getBoundingClientRect();
     return {
-      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
-      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left - layout.left) / layout.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top - layout.top) / layout.height))
+    };
+  };
+
+  useLayoutEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const observer = new ResizeObserver(() => {
+      const size = { width: view.clientWidth, height: view.clientHeight };
+      viewSizeRef.current = size;
+      setViewSize(size);
+    });
+    observer.observe(view);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setViewport(FIT_VIEWPORT);
+  }, [imageUrl]);
+
+  // Review frames each annotation in turn and returns to fit when it ends
+  const hadFocusRef = useRef(false);
+  useEffect(() => {
+    if (focusBox) setViewport(frameBox(focusBox));
+    else if (hadFocusRef.current) setViewport(FIT_VIEWPORT);
+    hadFocusRef.current = !!focusBox;
+  }, [focusBox?.xmin, focusBox?.ymin, focusBox?.xmax, focusBox?.ymax]);
+
+  // Wheel zoom around the cursor; registered natively because React wheel listeners are passive
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = view.getBoundingClientRect();
+      const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      const { width, height } = viewSizeRef.current;
+      setViewport(current => zoomAt(current, current.scale * Math.exp(-delta * 0.0015), e.clientX - rect.left, e.clientY - rect.top, width, height, aspectRef.current));
+    };
+    view.addEventListener('wheel', handleWheel, { passive: false });
+    return () => view.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Holding space turns the pointer into a pan hand for every tool
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!panOrigin) return;
+    let last = panOrigin;
+    const handleMove = (e: MouseEvent) => {
+      const { width, height } = viewSizeRef.current;
+      const dx = e.clientX - last.x;
+      const dy = e.clientY - last.y;
+      last = { x: e.clientX, y: e.clientY };
+      setViewport(current => panBy(current, dx, dy, width, height, aspectRef.current));
+    };
+    const handleUp = () => setPanOrigin(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [panOrigin]);
+
+  // Space+drag or middle-drag pans; captured before any tool sees the press
+  const handlePanStart = (e: React.MouseEvent) => {
+    if (!spaceHeld && e.button !== 1) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setPanOrigin({ x: e.clientX, y: e.clientY });
+  };
+
+  const zoomAroundCentre = (scale: number) =>
+    setViewport(current => zoomAt(current, scale, viewSize.width / 2, viewSize.height / 2, viewSize.width, viewSize.height, aspect));
+
+  const actualSize = actualSizeZoom(imageSize.width, imageSize.height, viewSize.width, viewSize.height);
+  // Zoom readout in image pixels per screen pixel, so 100% means actual size
+  const zoomPercent = Math.round((viewport.scale / actualSize) * 100);
+  const minimapRegion = visibleRegion(viewport, viewSize.width, viewSize.height, aspect);
+  const showMinimap = minimapRegion.xmin > 0 || minimapRegion.ymin > 0 || minimapRegion.xmax < 1 || minimapRegion.ymax < 1;
+
+  const recentreFromMinimap = (e: React.MouseEvent) => {
+    if (e.type === 'mousemove' && !(e.buttons & 1)) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setViewport(current => ({
+      ...current,
+      cx: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      cy: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+    }));
+  };
+
+  // Annotations with the in-progress edit applied, so the overlay tracks the cursor
+  const displayAnnotations = draft ? annotations.map(a => a.id === draft.id ? draft : a) : annotations;
+  const selectedAnnotation = displayAnnotations.find(a => a.id === selectedAnnotationId);
+  const selectedConcept = selectedAnnotation ? getConcept(selectedAnnotation.conceptId) : undefined;
+
+  // Edits track the cursor on window so dragging past the canvas edge keeps working
+  useEffect(() => {
+    if (!editDrag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const coords = getRelativeCoords(e);
+      if (editDrag.kind === 'move') {
+        setDraft(translateAnnotation(editDrag.original, coords.x - editDrag.origin.x, coords.y - editDrag.origin.y));
+      } else if (editDrag.kind === 'resize') {
+        setDraft(resizeAnnotation(editDrag.original, editDrag.handle, coords));
+      } else {
+        setDraft(moveVertex(editDrag.original, editDrag.index, coords));
+      }
+    };
+
+    const handleUp = () => {
+      const current = draftRef.current;
+      if (current) {
+        const label = editDrag.kind === 'move' ? 'Move shape' : editDrag.kind === 'resize' ? 'Resize box' : editDrag.label;
+        onUpdateAnnotation(applyMaskTransform(editDrag.original, current), label);
+      } else if (editDrag.kind === 'vertex' && editDrag.label === 'Insert vertex') {
+        // A click on a midpoint without dragging still inserts the vertex
+        onUpdateAnnotation(editDrag.original, editDrag.label);
+      }
+      setDraft(null);
+      setEditDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [editDrag]);
+
+  // While paused the canvas seeks to the requested frame; while playing the video drives the frame
+  useEffect(() => {
+    const video = videoRef.current;
+    if (mediaType !== 'video' || !video || isPlaying) return;
+    if (timeToFrame(video.currentTime, fps) !== currentFrame) video.currentTime = frameToTime(currentFrame, fps);
+  }, [mediaType, imageUrl, currentFrame, fps, isPlaying]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (mediaType !== 'video' || !video || !isPlaying) return;
+
+    let handle = 0;
+    let cancelled = false;
+    const hasFrameCallback = 'requestVideoFrameCallback' in video;
+    const tick = (_now: number, metadata?: VideoFrameCallbackMetadata) => {
+      if (cancelled) return;
+      onFrameChange(timeToFrame(metadata ? metadata.mediaTime : video.currentTime, fps));
+      handle = hasFrameCallback ? video.requestVideoFrameCallback(tick) : requestAnimationFrame(tick);
+    };
+    handle = hasFrameCallback ? video.requestVideoFrameCallback(tick) : requestAnimationFrame(tick);
+    video.play().catch(error => {
+      console.warn("Video playback failed", error);
+      onPlaybackEnd();
+    });
+
+    return () => {
+      cancelled = true;
+      if (hasFrameCallback) video.cancelVideoFrameCallback(handle);
+      else cancelAnimationFrame(handle);
+      video.pause();
+    };
+  }, [mediaType, imageUrl, isPlaying, fps]);
+
+  // Brush strokes track the cursor on window too, and commit one undo step on release
+  useEffect(() => {
+    if (!paintingId) return;
+
+    // The preview canvas mounts with the stroke, so draw what has been painted so far
+    const canvas = previewCanvasRef.current;
+    const initial = strokeRef.current;
+    if (canvas && initial) {
+      canvas.width = initial.width;
+      canvas.height = initial.height;
+      canvas.getContext('2d')?.putImageData(initial.preview, 0, 0);
+    }
+
+    const handleMove = (e: MouseEvent) => {
+      const stroke = strokeRef.current;
+      if (!stroke) return;
+      const coords = getRelativeCoords(e);
+      const next = { x: coords.x * stroke.width, y: coords.y * stroke.height };
+      setBrushCursor(coords);
+      paintStroke(stroke, next);
+    };
+
+    const handleUp = () => {
+      const stroke = strokeRef.current;
+      strokeRef.current = null;
+      setPaintingId(null);
+      if (stroke) commitStroke(stroke);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [paintingId]);
+
+  // Image pixels for edge snapping; fails for cross-origin images served without CORS
+  const getImagePixels = (width: number, height: number): Uint8ClampedArray | null => {
+    const img = mediaType === 'video' ? videoRef.current : imageRef.current;
+    if (!img) return null;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(img, 0, 0, width, height);
+      return ctx.getImageData(0, 0, width, height).data;
+    } catch (error) {
+      console.warn("Edge snapping unavailable for this image", error);
+      return null;
+    }
+  };
+
+  const startStroke = (e: React.MouseEvent) => {
+    const target = selectedAnnotation && selectedAnnotation.type !== 'point' ? selectedAnnotation : null;
+    if (!target && (selectedTool === 'eraser' || !activeConcept)) return;
+    const concept = target ? getConcept(target.conceptId) : activeConcept;
+    if (!concept) return;
+
+    // Existing masks keep their own resolution, new ones use the image's
+    const width = target?.type === 'mask' && target.mask ? target.mask.size[1] : imageSize.width;
+    const height = target?.type === 'mask' && target.mask ? target.mask.size[0] : imageSize.height;
+    if (!width || !height) return;
+
+    let bits: Uint8Array;
+    if (!target) {
+      bits = new Uint8Array(width * height);
+    } else if (target.type === 'mask' && target.mask) {
+      bits = decodeRLE(target.mask);
+    } else if (target.type === 'polygon' && target.points && target.points.length >= 3) {
+      bits = polygonToBits(target.points, width, height);
+    } else {
+      bits = decodeRLE(boxToMask(target.box, width, height));
+    }
+
+    const hex = parseInt(concept.color.replace('#', ''), 16);
+    const color: [number, number, number] = [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255];
+    const preview = new ImageData(width, height);
+    writePreview(preview, bits, color, { x: 0, y: 0, width, height });
+
+    const pixels = snapToEdges ? getImagePixels(width, height) : null;
+    const coords = getRelativeCoords(e);
+    const start = { x: coords.x * width, y: coords.y * height };
+    const stroke: BrushStroke = {
+      target,
+      conceptId: target ? target.conceptId : activeConcept!.id,
+      value: selectedTool === 'brush' ? 1 : 0,
+      bits,
+      width,
+      height,
+      color,
+      preview,
+      last: start,
+      filter: pixels ? createEdgeSnapFilter(pixels, width) : undefined
     };
+
+    paintStroke(stroke, start);
+    strokeRef.current = stroke;
+    setPaintingId(target ? target.id : 'new-mask');
+  };
+
+  const writePreview = (preview: ImageData, bits: Uint8Array, color: [number, number, number], rect: { x: number; y: number; width: number; height: number }) => {
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        const i = y * preview.width + x;
+        preview.data[i * 4] = color[0];
+        preview.data[i * 4 + 1] = color[1];
+        preview.data[i * 4 + 2] = color[2];
+        preview.data[i * 4 + 3] = bits[i] ? 255 : 0;
+      }
+    }
+  };
+
+  // Only the stamped area is rewritten, so long strokes on large images stay responsive
+  const paintStroke = (stroke: BrushStroke, next: Point) => {
+    const dirty = stampSegment(stroke.bits, stroke.width, stroke.height, stroke.last, next, brushRadius, stroke.value, stroke.filter);
+    stroke.last = next;
+    if (!dirty) return;
+    writePreview(stroke.preview, stroke.bits, stroke.color, dirty);
+    const ctx = previewCanvasRef.current?.getContext('2d');
+    ctx?.putImageData(stroke.preview, 0, 0, dirty.x, dirty.y, dirty.width, dirty.height);
+  };
+
+  // Painting turns any shape into a mask; the box always follows the painted pixels
+  const commitStroke = (stroke: BrushStroke) => {
+    const mask = encodeRLE(stroke.bits, stroke.width, stroke.height);
+    const box = maskToBox(mask);
+
+    if (!stroke.target) {
+      if (!box) return;
+      const id = `brush-${Date.now()}`;
+      onAddAnnotation({ id, type: 'mask', mask, box, conceptId: stroke.conceptId });
+      onSelectAnnotation(id);
+    } else if (!box && mediaType === 'video') {
+      // Everything was erased on this frame: it gets an empty keyframe, the rest of the track stays
+      const { xmin, ymin, xmax, ymax } = stroke.target.box;
+      const centre = { x: (xmin + xmax) / 2, y: (ymin + ymax) / 2 };
+      const empty = { xmin: centre.x, ymin: centre.y, xmax: centre.x, ymax: centre.y };
+      onUpdateAnnotation({ ...stroke.target, type: 'mask', mask, box: empty, points: undefined }, 'Erase mask');
+    } else if (!box) {
+      // Everything was erased
+      onReject(stroke.target.id);
+    } else {
+      onUpdateAnnotation({ ...stroke.target, type: 'mask', mask, box, points: undefined }, stroke.value ? 'Paint mask' : 'Erase mask');
+    }
+  };
+
+  const startMove = (e: React.MouseEvent, ann: Annotation) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    onSelectAnnotation(ann.id);
+    setEditDrag({ kind: 'move', origin: getRelativeCoords(e), original: ann });
+  };
+
+  const startResize = (e: React.MouseEvent, ann: Annotation, handle: BoxHandle) => {
+    e.stopPropagation();
+    setEditDrag({ kind: 'resize', handle, original: ann });
+  };
+
+  const startVertexDrag = (e: React.MouseEvent, ann: Annotation, index: number) => {
+    e.stopPropagation();
+    if (e.altKey) {
+      onUpdateAnnotation(deleteVertex(ann, index), 'Delete vertex');
+      return;
+    }
+    setEditDrag({ kind: 'vertex', index, original: ann, label: 'Move vertex' });
+  };
+
+  // Dragging an edge midpoint inserts a vertex there and moves it
+  const startVertexInsert = (e: React.MouseEvent, ann: Annotation, edgeIndex: number, midpoint: Point) => {
+    e.stopPropagation();
+    setEditDrag({ kind: 'vertex', index: edgeIndex + 1, original: insertVertex(ann, edgeIndex, midpoint), label: 'Insert vertex' });
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (selectedTool === 'select' || !activeConceptId) return;
+    if (selectedTool === 'select') {
+      // Clicking empty canvas clears the selection
+      onSelectAnnotation(null);
+      return;
+    }
+    if (isBrushTool) {
+      if (e.button === 0) startStroke(e);
+      return;
+    }
+    if (!activeConceptId && !(selectedTool === 'point' && selectedAnnotationId)) return;
     
     const coords = getRelativeCoords(e);
     setIsDrawing(true);
@@ -52,13 +513,8 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
     if (selectedTool === 'box') {
       setCurrentPoints([coords, coords]); // Start and current end
     } else if (selectedTool === 'point') {
-      // Point is instant
-      onAddAnnotation({
-        type: 'point',
-        points: [coords],
-        box: { xmin: coords.x - 0.01, ymin: coords.y - 0.01, xmax: coords.x + 0.01, ymax: coords.y + 0.01 },
-        conceptId: activeConceptId
-      });
+      // Points are prompts: click for foreground, shift+click for background
+      onPointPrompt({ ...coords, label: e.shiftKey ? 0 : 1 });
       setIsDrawing(false);
     } else if (selectedTool === 'polygon') {
       setCurrentPoints(prev => [...prev, coords]);
@@ -66,6 +522,10 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (isBrushTool) {
+      setBrushCursor(getRelativeCoords(e));
+      return;
+    }
     if (!isDrawing) {
       if (selectedTool === 'polygon' && currentPoints.length > 0) {
         // Preview line to cursor for polygon
@@ -109,14 +569,7 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
   const handleDoubleClick = (e: React.MouseEvent) => {
     if (selectedTool === 'polygon' && activeConceptId && currentPoints.length >= 3) {
        // Close polygon
-       const xs = currentPoints.map(p => p.x);
-       const ys = currentPoints.map(p => p.y);
-       const box: BoundingBox = {
-         xmin: Math.min(...xs),
-         ymin: Math.min(...ys),
-         xmax: Math.max(...xs),
-         ymax: Math.max(...ys)
-       };
+       const box = boxFromPoints(currentPoints);
 
        onAddAnnotation({
          type: 'polygon',
@@ -129,13 +582,18 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
     }
   };
 
-  // Helper to render SVG path for polygon
+  // Helper to render SVG path for polygon, in the 0-100 viewBox of a nested <svg>
   const pointsToPath = (pts: Point[]) => {
     return pts.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
   };
 
   return (
-    <div className="flex-1 bg-zinc-950 relative overflow-hidden flex items-center justify-center p-8">
+    <div
+      ref={viewRef}
+      className={`flex-1 bg-zinc-950 relative overflow-hidden ${panOrigin ? 'cursor-grabbing' : spaceHeld ? 'cursor-grab' : ''}`}
+      onMouseDownCapture={handlePanStart}
+      onAuxClick={(e) => e.preventDefault()}
+    >
         {/* Background Pattern */}
         <div className="absolute inset-0 opacity-10 pointer-events-none" 
              style={{ 
@@ -146,29 +604,61 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
 
         {/* Main Canvas Container */}
         <div 
-          ref={containerRef}
-          className={`relative shadow-2xl border border-zinc-800 bg-black max-h-full max-w-full aspect-video group ${selectedTool !== 'select' ? 'cursor-crosshair' : 'cursor-default'}`}
+          className={`absolute shadow-2xl border border-zinc-800 bg-black group ${spaceHeld || panOrigin ? 'pointer-events-none' : selectedTool !== 'select' ? 'cursor-crosshair' : 'cursor-default'}`}
+          style={{ left: layout.left, top: layout.top, width: layout.width, height: layout.height }}
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
+          onMouseLeave={() => setBrushCursor(null)}
           onDoubleClick={handleDoubleClick}
         >
-            <img 
-                src={imageUrl} 
-                alt="Annotation Target" 
-                className="w-full h-full object-contain select-none pointer-events-none"
-                crossOrigin="anonymous"
+            {mediaType === 'video' ? (
+              <video
+                  key={imageUrl}
+                  ref={videoRef}
+                  src={imageUrl}
+                  muted
+                  playsInline
+                  preload="auto"
+                  className="w-full h-full object-fill select-none pointer-events-none"
+                  onLoadedMetadata={(e) => { e.currentTarget.currentTime = frameToTime(currentFrame, fps); }}
+                  onEnded={onPlaybackEnd}
+              />
+            ) : (
+              <img 
+                  ref={imageRef}
+                  src={imageUrl} 
+                  alt="Annotation Target" 
+                  className="w-full h-full object-fill select-none pointer-events-none"
+                  crossOrigin="anonymous"
+              />
+            )}
+
+            <MaskLayer
+              annotations={displayAnnotations}
+              concepts={concepts}
+              selectedAnnotationId={selectedAnnotationId}
+              hiddenAnnotationId={paintingId || (draft?.type === 'mask' ? draft.id : null)}
             />
+
+            {/* Live preview of the stroke in progress */}
+            {paintingId && (
+              <canvas ref={previewCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none opacity-60" />
+            )}
             
             {/* SVG Overlay for Masks/Boxes/Polygons */}
             <svg className="absolute inset-0 w-full h-full pointer-events-none">
-                {annotations.map(ann => {
+                {displayAnnotations.map(ann => {
                     const concept = getConcept(ann.conceptId);
                     if (!concept || !concept.isVisible) return null;
                     
                     const isHovered = hoveredId === ann.id;
+                    const isSelected = selectedAnnotationId === ann.id;
                     const strokeColor = concept.color;
                     const fillColor = `${concept.color}33`; 
+                    // Video frames between keyframes are drawn dotted so they read as estimates
+                    const isInterpolated = mediaType === 'video' && !!ann.keyframes?.length && !isKeyframe(ann, currentFrame);
+                    const dashArray = isInterpolated ? '1 3' : ann.isVerified ? '0' : '4 2';
 
                     return (
                         <g key={ann.id}>
@@ -185,26 +675,32 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
                             )}
 
                             {ann.type === 'polygon' && ann.points && (
-                                <polygon
-                                  points={pointsToPath(ann.points)}
-                                  fill={ann.isVerified ? fillColor : 'transparent'}
-                                  stroke={strokeColor}
-                                  strokeWidth={isHovered ? 3 : 2}
-                                  strokeDasharray={ann.isVerified ? '0' : '4 2'}
-                                />
+                                <svg viewBox="0 0 100 100" preserveAspectRatio="none" width="100%" height="100%" overflow="visible">
+                                  <polygon
+                                    points={pointsToPath(ann.points)}
+                                    fill={ann.isVerified && !isInterpolated ? fillColor : 'transparent'}
+                                    stroke={strokeColor}
+                                    strokeWidth={isHovered || isSelected ? 3 : 2}
+                                    strokeDasharray={dashArray}
+                                    strokeLinecap="round"
+                                    vectorEffect="non-scaling-stroke"
+                                  />
+                                </svg>
                             )}
 
-                            {(ann.type === 'box' || !ann.type) && (
+                            {(ann.type === 'box' || ann.type === 'mask' || !ann.type) && (
                               <rect
                                   x={`${ann.box.xmin * 100}%`}
                                   y={`${ann.box.ymin * 100}%`}
                                   width={`${(ann.box.xmax - ann.box.xmin) * 100}%`}
                                   height={`${(ann.box.ymax - ann.box.ymin) * 100}%`}
-                                  fill={ann.isVerified ? fillColor : 'transparent'}
+                                  fill={ann.isVerified && ann.type !== 'mask' && !isInterpolated ? fillColor : 'transparent'}
                                   stroke={strokeColor}
-                                  strokeWidth={isHovered ? 3 : 2}
-                                  strokeDasharray={ann.isVerified ? '0' : '4 2'}
-                                  className="transition-all duration-200 ease-out"
+                                  strokeWidth={ann.type === 'mask' && !isHovered && !isSelected ? 1 : isHovered || isSelected ? 3 : 2}
+                                  strokeOpacity={ann.type === 'mask' && !isHovered && !isSelected ? 0.5 : 1}
+                                  strokeDasharray={dashArray}
+                                  strokeLinecap="round"
+                                  className={editDrag ? '' : 'transition-all duration-200 ease-out'}
                               />
                             )}
                             
@@ -235,6 +731,45 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
                     );
                 })}
 
+                {/* Point Prompts of the selected annotation */}
+                {selectedTool === 'point' && [...(selectedAnnotation?.prompts || []), ...(pendingPrompt ? [pendingPrompt] : [])].map((prompt, i) => (
+                    <g key={`prompt-${i}`} className={prompt === pendingPrompt ? 'animate-pulse' : ''}>
+                        <circle
+                          cx={`${prompt.x * 100}%`}
+                          cy={`${prompt.y * 100}%`}
+                          r="6"
+                          fill={prompt.label === 1 ? '#10b981' : '#ef4444'}
+                          stroke="white"
+                          strokeWidth="2"
+                        />
+                        <text
+                          x={`${prompt.x * 100}%`}
+                          y={`${prompt.y * 100}%`}
+                          dy="3.5"
+                          textAnchor="middle"
+                          fontSize="10"
+                          fontWeight="bold"
+                          fill="white"
+                        >
+                          {prompt.label === 1 ? '+' : '−'}
+                        </text>
+                    </g>
+                ))}
+
+                {/* Brush outline */}
+                {isBrushTool && brushCursor && imageSize.width > 0 && (
+                    <ellipse
+                      cx={`${brushCursor.x * 100}%`}
+                      cy={`${brushCursor.y * 100}%`}
+                      rx={`${(brushRadius / imageSize.width) * 100}%`}
+                      ry={`${(brushRadius / imageSize.height) * 100}%`}
+                      fill="none"
+                      stroke="white"
+                      strokeWidth="1"
+                      strokeDasharray={selectedTool === 'eraser' ? '3 2' : '0'}
+                    />
+                )}
+
                 {/* Current Drawing Preview */}
                 {isDrawing && activeConcept && (
                    <g>
@@ -252,12 +787,15 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
                       )}
                       {selectedTool === 'polygon' && currentPoints.length > 0 && (
                          <>
-                           <polyline
-                              points={pointsToPath(currentPoints)}
-                              fill="none"
-                              stroke={activeConcept.color}
-                              strokeWidth="2"
-                           />
+                           <svg viewBox="0 0 100 100" preserveAspectRatio="none" width="100%" height="100%" overflow="visible">
+                             <polyline
+                                points={pointsToPath(currentPoints)}
+                                fill="none"
+                                stroke={activeConcept.color}
+                                strokeWidth="2"
+                                vectorEffect="non-scaling-stroke"
+                             />
+                           </svg>
                            {currentPoints.map((p, i) => (
                               <circle key={i} cx={`${p.x * 100}%`} cy={`${p.y * 100}%`} r="3" fill="white" />
                            ))}
@@ -270,14 +808,14 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
             {/* Interactive Layer (HTML Divs for tooltips/buttons) - ONLY for Select Tool */}
             {selectedTool === 'select' && (
               <div className="absolute inset-0 w-full h-full">
-                  {annotations.map(ann => {
+                  {displayAnnotations.map(ann => {
                       const concept = getConcept(ann.conceptId);
                       if (!concept || !concept.isVisible) return null;
 
                       return (
                           <div
                               key={ann.id}
-                              className="absolute cursor-pointer"
+                              className={`absolute ${selectedAnnotationId === ann.id ? 'cursor-move' : 'cursor-pointer'}`}
                               style={{
                                   left: `${ann.box.xmin * 100}%`,
                                   top: `${ann.box.ymin * 100}%`,
@@ -286,32 +824,43 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
                               }}
                               onMouseEnter={() => setHoveredId(ann.id)}
                               onMouseLeave={() => setHoveredId(null)}
+                              onMouseDown={(e) => startMove(e, ann)}
                           >
+                              {/* Identity tag; the hover tooltips repeat it */}
+                              {ann.trackId !== undefined && hoveredId !== ann.id && (
+                                  <div
+                                      className="absolute -top-4 left-0 px-1 rounded-t text-[9px] leading-4 font-mono font-semibold text-black whitespace-nowrap pointer-events-none"
+                                      style={{ backgroundColor: concept.color }}
+                                  >
+                                      {trackLabel(concept.name, ann)}
+                                  </div>
+                              )}
+
                               {/* Standard Tooltip (Legacy/Non-Spatial) */}
-                              {hoveredId === ann.id && !showSpatialOverlay && (
+                              {hoveredId === ann.id && !showSpatialOverlay && !editDrag && (
                                   <div className="absolute -top-10 left-0 bg-zinc-900/90 backdrop-blur text-xs text-white px-2 py-1 rounded border border-zinc-700 shadow-xl flex items-center space-x-2 whitespace-nowrap z-50">
                                       <div className="w-2 h-2 rounded-full" style={{ backgroundColor: concept.color }} />
-                                      <span className="font-semibold">{concept.name}</span>
+                                      <span className="font-semibold">{trackLabel(concept.name, ann)}</span>
                                       <span className={`font-mono ${ann.confidence < 0.8 ? 'text-yellow-400' : 'text-zinc-400'}`}>
                                           {(ann.confidence * 100).toFixed(0)}%
                                       </span>
                                       {!ann.isVerified && (
                                           <div className="flex items-center ml-2 space-x-1 border-l border-zinc-700 pl-2">
-                                              <button onClick={(e) => { e.stopPropagation(); onVerify(ann.id); }} className="p-1 hover:bg-emerald-500/20 text-emerald-400 rounded"><Check size={12} /></button>
-                                              <button onClick={(e) => { e.stopPropagation(); onReject(ann.id); }} className="p-1 hover:bg-red-500/20 text-red-400 rounded"><X size={12} /></button>
+                                              <button onMouseDown={(e) => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); onVerify(ann.id); }} className="p-1 hover:bg-emerald-500/20 text-emerald-400 rounded"><Check size={12} /></button>
+                                              <button onMouseDown={(e) => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); onReject(ann.id); }} className="p-1 hover:bg-red-500/20 text-red-400 rounded"><X size={12} /></button>
                                           </div>
                                       )}
                                   </div>
                               )}
 
                               {/* Enhanced Spatial Tooltip (On Hover + Spatial Mode) */}
-                              {hoveredId === ann.id && showSpatialOverlay && (
+                              {hoveredId === ann.id && showSpatialOverlay && !editDrag && (
                                   <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-64 bg-zinc-900/95 backdrop-blur-md text-zinc-100 p-3 rounded-lg border border-indigo-500/50 shadow-2xl z-50 pointer-events-none animate-in fade-in zoom-in-95 duration-200">
                                       {/* Header */}
                                       <div className="flex items-center justify-between border-b border-white/10 pb-2 mb-2">
                                           <div className="flex items-center space-x-2">
                                               <div className="w-2.5 h-2.5 rounded-full shadow-[0_0_8px]" style={{ backgroundColor: concept.color, boxShadow: `0 0 8px ${concept.color}` }} />
-                                              <span className="font-bold text-sm tracking-wide">{concept.name}</span>
+                                              <span className="font-bold text-sm tracking-wide">{trackLabel(concept.name, ann)}</span>
                                           </div>
                                           <span className="font-mono text-[10px] text-indigo-400 bg-indigo-900/30 px-1.5 py-0.5 rounded border border-indigo-500/30">
                                               {(ann.confidence * 100).toFixed(0)}% CONF
@@ -356,12 +905,93 @@ export const SemanticCanvas: React.FC<SemanticCanvasProps> = ({
               </div>
             )}
 
-            {/* Overlay Controls */}
-            <div className="absolute bottom-4 right-4 flex space-x-2 pointer-events-auto">
-                <button className="p-2 bg-black/50 backdrop-blur hover:bg-black/80 text-white rounded-lg border border-white/10">
-                    <Maximize2 size={18} />
-                </button>
+            {/* Edit Handles for the selected annotation */}
+            {selectedTool === 'select' && selectedAnnotation && selectedConcept?.isVisible && (
+              <div className="absolute inset-0 w-full h-full pointer-events-none">
+                  {selectedAnnotation.type !== 'point' && BOX_HANDLES.map(handle => {
+                      const pos = handlePosition(selectedAnnotation.box, handle);
+                      return (
+                          <div
+                              key={handle}
+                              className="absolute w-2.5 h-2.5 bg-white border-2 rounded-sm pointer-events-auto -translate-x-1/2 -translate-y-1/2 shadow"
+                              style={{ left: `${pos.x * 100}%`, top: `${pos.y * 100}%`, borderColor: selectedConcept.color, cursor: HANDLE_CURSORS[handle] }}
+                              onMouseDown={(e) => startResize(e, selectedAnnotation, handle)}
+                          />
+                      );
+                  })}
+
+                  {selectedAnnotation.type === 'polygon' && selectedAnnotation.points && (
+                      <>
+                        {edgeMidpoints(selectedAnnotation.points).map((mid, i) => (
+                            <div
+                                key={`mid-${i}`}
+                                title="Drag to insert a vertex"
+                                className="absolute w-2 h-2 rounded-full bg-white/40 border border-white pointer-events-auto -translate-x-1/2 -translate-y-1/2 cursor-copy hover:bg-white"
+                                style={{ left: `${mid.x * 100}%`, top: `${mid.y * 100}%` }}
+                                onMouseDown={(e) => startVertexInsert(e, selectedAnnotation, i, mid)}
+                            />
+                        ))}
+                        {selectedAnnotation.points.map((p, i) => (
+                            <div
+                                key={`vertex-${i}`}
+                                title="Drag to move, Alt+click to delete"
+                                className="absolute w-3 h-3 rounded-full bg-white border-2 pointer-events-auto -translate-x-1/2 -translate-y-1/2 cursor-move shadow"
+                                style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%`, borderColor: selectedConcept.color }}
+                                onMouseDown={(e) => startVertexDrag(e, selectedAnnotation, i)}
+                                onContextMenu={(e) => {
+                                    e.preventDefault();
+                                    onUpdateAnnotation(deleteVertex(selectedAnnotation, i), 'Delete vertex');
+                                }}
+                            />
+                        ))}
+                      </>
+                  )}
+              </div>
+            )}
+
+        </div>
+
+        {/* Minimap, shown while part of the canvas is out of view; click or drag to recentre */}
+        {showMinimap && (
+            <div
+                className="absolute bottom-4 left-4 w-40 bg-black/70 border border-white/10 rounded overflow-hidden cursor-pointer shadow-xl"
+                style={{ aspectRatio: aspect }}
+                onMouseDown={recentreFromMinimap}
+                onMouseMove={recentreFromMinimap}
+            >
+                {mediaType === 'image' && (
+                    <img src={imageUrl} alt="" className="w-full h-full object-fill opacity-60 pointer-events-none select-none" />
+                )}
+                <div
+                    className="absolute border border-indigo-400 bg-indigo-400/10 pointer-events-none"
+                    style={{
+                        left: `${minimapRegion.xmin * 100}%`,
+                        top: `${minimapRegion.ymin * 100}%`,
+                        width: `${(minimapRegion.xmax - minimapRegion.xmin) * 100}%`,
+                        height: `${(minimapRegion.ymax - minimapRegion.ymin) * 100}%`
+                    }}
+                />
             </div>
+        )}
+
+        {/* Viewport Controls */}
+        <div className="absolute bottom-4 right-4 flex items-center space-x-1 p-1 bg-black/50 backdrop-blur rounded-lg border border-white/10 text-white">
+            <button onClick={() => zoomAroundCentre(viewport.scale / 1.5)} title="Zoom out (wheel)" className="p-1.5 rounded hover:bg-white/10">
+                <ZoomOut size={16} />
+            </button>
+            <button
+                onClick={() => zoomAroundCentre(actualSize)}
+                title="Actual size (100%)"
+                className="px-1.5 py-1 rounded hover:bg-white/10 font-mono text-xs w-14 text-center"
+            >
+                {zoomPercent}%
+            </button>
+            <button onClick={() => zoomAroundCentre(viewport.scale * 1.5)} title="Zoom in (wheel)" className="p-1.5 rounded hover:bg-white/10">
+                <ZoomIn size={16} />
+            </button>
+            <button onClick={() => setViewport(FIT_VIEWPORT)} title="Fit to view (hold Space and drag to pan)" className="p-1.5 rounded hover:bg-white/10">
+                <Maximize2 size={16} />
+            </button>
         </div>
     </div>
   );
@@ -1,20 +1,37 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Annotation, Concept } from '../types';
-import { Box, ArrowRightLeft, ScanEye, Layers, Search } from 'lucide-react';
+import { Box, ArrowRightLeft, ScanEye, Layers, Search, Hash, ArrowUpDown, ListOrdered } from 'lucide-react';
+import { trackLabel } from '../utils/identity';
 
 interface SpatialAnalysisPanelProps {
   annotations: Annotation[];
   concepts: Concept[];
   isVisible: boolean;
+  selectedAnnotationId?: string | null;
+  onSelectAnnotation?: (id: string | null) => void;
+  onReassignTrackId?: (id: string, trackId: number) => void;
+  onSwapTrackIds?: (firstId: string, secondId: string) => void;
+  onRenumberTrackIds?: (conceptId: string) => void;
 }
 
 export const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
   annotations,
   concepts,
-  isVisible
+  isVisible,
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onReassignTrackId,
+  onSwapTrackIds,
+  onRenumberTrackIds
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const selected = annotations.find(a => a.id === selectedAnnotationId);
+  const [trackIdInput, setTrackIdInput] = useState('');
+
+  useEffect(() => {
+    setTrackIdInput(selected?.trackId !== undefined ? String(selected.trackId) : '');
+  }, [selected?.id, selected?.trackId]);
 
   if (!isVisible) return null;
 
@@ -23,6 +40,12 @@ export const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
 
   const getConceptName = (id: string) => concepts.find(c => c.id === id)?.name || id;
   const getConceptColor = (id: string) => concepts.find(c => c.id === id)?.color || '#666';
+  const getLabel = (ann: Annotation) => trackLabel(getConceptName(ann.conceptId), ann);
+
+  // Objects the selected one can trade identities with
+  const swapCandidates = selected
+    ? annotations.filter(a => a.id !== selected.id && a.conceptId === selected.conceptId)
+    : [];
 
   // Filter annotations based on search term in spatialContext
   const filteredAnnotations = annotations.filter(ann => 
@@ -54,6 +77,66 @@ export const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
       </div>
 
       <div className="flex-1 overflow-y-auto p-3 space-y-6">
+
+        {/* Identity of the selected object */}
+        {selected && (
+           <div>
+              <h3 className="text-xs font-bold text-zinc-300 mb-3 flex items-center uppercase">
+                 <Hash size={12} className="mr-1.5" /> Identity
+              </h3>
+              <div className="bg-zinc-950 rounded-lg p-3 border border-zinc-800 space-y-2">
+                 <div className="flex items-center text-xs text-zinc-200 font-medium">
+                    <div className="w-1.5 h-1.5 rounded-full mr-2" style={{ backgroundColor: getConceptColor(selected.conceptId) }} />
+                    {getLabel(selected)}
+                 </div>
+                 <form
+                    className="flex items-center space-x-2"
+                    onSubmit={(e) => {
+                       e.preventDefault();
+                       const trackId = Number(trackIdInput);
+                       if (Number.isInteger(trackId) && trackId > 0) onReassignTrackId?.(selected.id, trackId);
+                    }}
+                 >
+                    <span className="text-[10px] text-zinc-500 w-12">Track #</span>
+                    <input
+                       type="number"
+                       min={1}
+                       step={1}
+                       value={trackIdInput}
+                       onChange={(e) => setTrackIdInput(e.target.value)}
+                       className="w-16 bg-black border border-zinc-800 rounded px-1.5 py-0.5 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
+                    />
+                    <button
+                       type="submit"
+                       title="Give this object another identity; an object on this image already holding it takes the old one"
+                       className="px-2 py-0.5 rounded bg-zinc-800 hover:bg-zinc-700 text-[10px] text-zinc-300 border border-zinc-700"
+                    >
+                       Reassign
+                    </button>
+                 </form>
+                 <div className="flex items-center space-x-2">
+                    <span className="text-[10px] text-zinc-500 w-12 flex items-center"><ArrowUpDown size={10} className="mr-1" />Swap</span>
+                    <select
+                       value=""
+                       disabled={swapCandidates.length === 0}
+                       onChange={(e) => e.target.value && onSwapTrackIds?.(selected.id, e.target.value)}
+                       className="flex-1 bg-black border border-zinc-800 rounded px-1 py-0.5 text-xs text-zinc-300 focus:outline-none disabled:opacity-50"
+                    >
+                       <option value="">{swapCandidates.length ? 'Swap identity with…' : 'No other objects'}</option>
+                       {swapCandidates.map(a => <option key={a.id} value={a.id}>{getLabel(a)}</option>)}
+                    </select>
+                 </div>
+                 <button
+                    onClick={() => onRenumberTrackIds?.(selected.conceptId)}
+                    title="Number this concept's identities 1..n in order of first appearance across the dataset"
+                    className="w-full flex items-center justify-center space-x-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-[10px] text-zinc-300 border border-zinc-700"
+                 >
+                    <ListOrdered size={10} />
+                    <span>Renumber {getConceptName(selected.conceptId)} identities</span>
+                 </button>
+              </div>
+           </div>
+        )}
         
         {/* Scene Composition (Depth) */}
         <div>
@@ -79,13 +162,17 @@ export const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
                        </span>
                        <div className="space-y-1">
                           {layerAnns.map(ann => (
-                             <div key={ann.id} className="bg-zinc-850 p-2 rounded border border-zinc-800 flex items-start">
+                             <div
+                                key={ann.id}
+                                onClick={() => onSelectAnnotation?.(ann.id)}
+                                className={`bg-zinc-850 p-2 rounded border flex items-start cursor-pointer ${ann.id === selectedAnnotationId ? 'border-indigo-500/60' : 'border-zinc-800 hover:border-zinc-700'}`}
+                             >
                                 <div 
                                    className="w-1.5 h-1.5 rounded-full mt-1 mr-2 shrink-0" 
                                    style={{ backgroundColor: getConceptColor(ann.conceptId) }} 
                                 />
                                 <div>
-                                   <div className="text-xs text-zinc-200 font-medium">{getConceptName(ann.conceptId)}</div>
+                                   <div className="text-xs text-zinc-200 font-medium">{getLabel(ann)}</div>
                                    <div className="text-[10px] text-zinc-500">{ann.spatialContext}</div>
                                 </div>
                              </div>
@@ -110,7 +197,7 @@ export const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
               ) : (
                  filteredAnnotations.slice(0, 10).map((ann, idx) => (
                     <div key={`rel-${ann.id || idx}`} className="text-xs text-zinc-400 border-b border-zinc-800/50 last:border-0 pb-2 last:pb-0">
-                       <span className="text-zinc-200 font-medium">{getConceptName(ann.conceptId)}</span>
+                       <span className="text-zinc-200 font-medium">{getLabel(ann)}</span>
                        <span className="mx-1 text-indigo-400">is positioned</span>
                        <span className="italic">"{ann.spatialContext}"</span>
                     </div>
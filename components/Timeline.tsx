@@ -1,26 +1,119 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Annotation, Concept } from '../types';
-import { Play, Pause, FastForward, Rewind, GitMerge, Scissors } from 'lucide-react';
+import { Play, Pause, FastForward, Rewind, GitMerge, Scissors, ChevronsLeft, ChevronsRight, X } from 'lucide-react';
+import { canSplitAt, formatTimecode, isInTrack } from '../utils/keyframes';
+import { TrackerId, TRACKERS } from '../services/trackingService';
+
+export interface PropagationProgress {
+  annotationId: string;
+  done: number;
+  total: number;
+}
+
+// Propagated frames below this confidence are marked on the track bar
+const LOW_CONFIDENCE = 0.6;
+
+// Runs of consecutive low-confidence frames, with the lowest score in each
+const confidenceDips = (ann: Annotation) => {
+  const dips: { start: number; end: number; min: number }[] = [];
+  (ann.keyframes || []).forEach(k => {
+    if (k.confidence === undefined || k.confidence >= LOW_CONFIDENCE) return;
+    const last = dips[dips.length - 1];
+    if (last && last.end === k.frame - 1) {
+      last.end = k.frame;
+      last.min = Math.min(last.min, k.confidence);
+    } else {
+      dips.push({ start: k.frame, end: k.frame, min: k.confidence });
+    }
+  });
+  return dips;
+};
 
 interface TimelineProps {
   annotations: Annotation[];
   concepts: Concept[];
-  currentTime: number; // 0 to 100
-  duration: number;
+  currentFrame: number; // Frame index on video, 0 to 100 on still images
+  frameCount: number; // 100 on still images
+  fps?: number; // Set for video; switches the readout to frames and timecode
   isPlaying: boolean;
   onPlayPause: () => void;
-  onSeek: (time: number) => void;
+  onSeek: (frame: number) => void;
+  onStep: (delta: number) => void;
+  onFpsChange?: (fps: number) => void;
+  onRemoveKeyframe?: (annotationId: string, frame: number) => void;
+  selectedAnnotationId: string | null;
+  onSelectAnnotation: (id: string | null) => void;
+  onSplitTrack: (id: string, frame: number) => void;
+  onMergeTracks: (primaryId: string, secondaryId: string) => void;
+  trackerId?: TrackerId;
+  onTrackerChange?: (id: TrackerId) => void;
+  propagation?: PropagationProgress | null;
+  onPropagate?: (id: string, direction: 1 | -1) => void;
+  onCancelPropagation?: () => void;
 }
 
 export const Timeline: React.FC<TimelineProps> = ({
   annotations,
   concepts,
-  currentTime,
-  duration,
+  currentFrame,
+  frameCount,
+  fps,
   isPlaying,
   onPlayPause,
-  onSeek
+  onSeek,
+  onStep,
+  onFpsChange,
+  onRemoveKeyframe,
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onSplitTrack,
+  onMergeTracks,
+  trackerId,
+  onTrackerChange,
+  propagation,
+  onPropagate,
+  onCancelPropagation
 }) => {
+  const isVideo = fps !== undefined;
+
+  // Tracks picked for merging; the first is the selected annotation and keeps its identity
+  const [trackSelection, setTrackSelection] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!selectedAnnotationId) setTrackSelection([]);
+    else if (!trackSelection.includes(selectedAnnotationId)) setTrackSelection([selectedAnnotationId]);
+  }, [selectedAnnotationId]);
+
+  const selectTrack = (e: React.MouseEvent, id: string) => {
+    // The lane behind the bar seeks on click; selecting a track should not move the playhead
+    e.stopPropagation();
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      if (trackSelection.includes(id)) {
+        setTrackSelection(trackSelection.filter(t => t !== id));
+      } else {
+        if (trackSelection.length === 0) onSelectAnnotation(id);
+        setTrackSelection([...trackSelection, id]);
+      }
+      return;
+    }
+    onSelectAnnotation(id);
+    setTrackSelection([id]);
+  };
+
+  const selectedTrack = annotations.find(a => a.id === selectedAnnotationId);
+  const canSplit = !!selectedTrack && canSplitAt(selectedTrack, currentFrame);
+  const mergePair = trackSelection
+    .map(id => annotations.find(a => a.id === id))
+    .filter((a): a is Annotation => !!a);
+  const canMerge = mergePair.length === 2 && mergePair[0].conceptId === mergePair[1].conceptId;
+  // Propagation starts from the playhead, so it must lie on the selected track
+  const canPropagate = isVideo && !!onPropagate && !propagation && !!selectedTrack?.keyframes?.length && isInTrack(selectedTrack, currentFrame);
+  const toPercent = (frame: number) => (frame / frameCount) * 100;
+
+  // Video tracks end on an inclusive frame; the image timeline is a plain 0-100 range
+  const trackSpan = (ann: Annotation) => isVideo
+    ? { left: toPercent(ann.frameStart ?? 0), width: toPercent((ann.frameEnd ?? frameCount - 1) + 1 - (ann.frameStart ?? 0)) }
+    : { left: ann.frameStart ?? 0, width: (ann.frameEnd || 100) - (ann.frameStart || 0) };
   
   // Group annotations by concept ID for swimlanes
   const lanes = concepts.filter(c => c.isVisible);
@@ -30,7 +123,11 @@ export const Timeline: React.FC<TimelineProps> = ({
       {/* Toolbar */}
       <div className="h-10 border-b border-zinc-800 flex items-center px-4 justify-between">
         <div className="flex items-center space-x-4">
-          <button className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400">
+          <button
+            onClick={(e) => onStep(e.shiftKey ? -10 : -1)}
+            title={isVideo ? 'Previous frame (←, Shift for 10)' : 'Step back'}
+            className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400"
+          >
             <Rewind size={16} />
           </button>
           <button 
@@ -39,21 +136,98 @@ export const Timeline: React.FC<TimelineProps> = ({
           >
             {isPlaying ? <Pause size={16} fill="currentColor" /> : <Play size={16} fill="currentColor" />}
           </button>
-          <button className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400">
+          <button
+            onClick={(e) => onStep(e.shiftKey ? 10 : 1)}
+            title={isVideo ? 'Next frame (→, Shift for 10)' : 'Step forward'}
+            className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400"
+          >
             <FastForward size={16} />
           </button>
-          <span className="text-xs font-mono text-zinc-500">
-            {Math.floor(currentTime * duration / 100).toString().padStart(2, '0')}:00 / {duration}:00
-          </span>
+          {isVideo ? (
+            <span className="flex items-center space-x-3 text-xs font-mono text-zinc-500">
+              <span>{formatTimecode(currentFrame, fps!)}</span>
+              <span className="text-zinc-400">F {currentFrame} / {frameCount - 1}</span>
+              <label className="flex items-center space-x-1" title="Frames per second used to map frames to video time">
+                <input
+                  type="number"
+                  min={1}
+                  max={240}
+                  step="any"
+                  value={fps}
+                  onChange={(e) => onFpsChange?.(Number(e.target.value))}
+                  className="w-12 bg-black border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none focus:border-indigo-500"
+                />
+                <span>fps</span>
+              </label>
+            </span>
+          ) : (
+            <span className="text-xs font-mono text-zinc-500">
+              {Math.floor(currentFrame).toString().padStart(2, '0')}:00 / 100:00
+            </span>
+          )}
         </div>
 
         <div className="flex items-center space-x-2">
            <span className="text-xs text-zinc-600 mr-2">TRACKING TOOLS</span>
-           <button className="flex items-center space-x-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300 border border-zinc-700">
+           {isVideo && onPropagate && (
+              propagation ? (
+                 <span className="flex items-center space-x-2 text-xs text-zinc-400">
+                    <span className="font-mono">Propagating {propagation.done}/{propagation.total}</span>
+                    <span className="w-20 h-1 bg-zinc-800 rounded overflow-hidden">
+                       <span className="block h-full bg-indigo-500" style={{ width: `${(propagation.done / Math.max(1, propagation.total)) * 100}%` }} />
+                    </span>
+                    <button
+                       onClick={onCancelPropagation}
+                       title="Cancel propagation"
+                       className="p-1 rounded hover:bg-zinc-800 text-zinc-400 hover:text-zinc-200"
+                    >
+                       <X size={12} />
+                    </button>
+                 </span>
+              ) : (
+                 <span className="flex items-center space-x-1">
+                    <select
+                       value={trackerId}
+                       onChange={(e) => onTrackerChange?.(e.target.value as TrackerId)}
+                       title="Tracker used for propagation"
+                       className="bg-zinc-800 border border-zinc-700 rounded px-1 py-1 text-xs text-zinc-300 focus:outline-none"
+                    >
+                       {TRACKERS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <button
+                       onClick={() => canPropagate && onPropagate(selectedTrack!.id, -1)}
+                       disabled={!canPropagate}
+                       title="Propagate the selected track backward from the playhead, up to its previous keyframe"
+                       className="p-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 disabled:opacity-40 disabled:hover:bg-zinc-800"
+                    >
+                       <ChevronsLeft size={12} />
+                    </button>
+                    <button
+                       onClick={() => canPropagate && onPropagate(selectedTrack!.id, 1)}
+                       disabled={!canPropagate}
+                       title="Propagate the selected track forward from the playhead, up to its next keyframe"
+                       className="p-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 disabled:opacity-40 disabled:hover:bg-zinc-800"
+                    >
+                       <ChevronsRight size={12} />
+                    </button>
+                 </span>
+              )
+           )}
+           <button
+              onClick={() => canMerge && onMergeTracks(mergePair[0].id, mergePair[1].id)}
+              disabled={!canMerge}
+              title="Merge two tracks of the same concept (Shift+click bars to pick them); the first keeps its identity"
+              className="flex items-center space-x-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300 border border-zinc-700 disabled:opacity-40 disabled:hover:bg-zinc-800"
+           >
               <GitMerge size={12} />
               <span>Merge</span>
            </button>
-           <button className="flex items-center space-x-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300 border border-zinc-700">
+           <button
+              onClick={() => canSplit && onSplitTrack(selectedTrack!.id, currentFrame)}
+              disabled={!canSplit}
+              title="Split the selected track at the playhead"
+              className="flex items-center space-x-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300 border border-zinc-700 disabled:opacity-40 disabled:hover:bg-zinc-800"
+           >
               <Scissors size={12} />
               <span>Split</span>
            </button>
@@ -64,8 +238,8 @@ export const Timeline: React.FC<TimelineProps> = ({
       <div className="flex-1 overflow-y-auto relative custom-scrollbar">
          {/* Playhead Line */}
          <div 
-            className="absolute top-0 bottom-0 w-0.5 bg-indigo-500 z-20 pointer-events-none transition-all ease-linear"
-            style={{ left: `${currentTime}%` }}
+            className={`absolute top-0 bottom-0 w-0.5 bg-indigo-500 z-20 pointer-events-none ${isVideo ? '' : 'transition-all ease-linear'}`}
+            style={{ left: `${toPercent(currentFrame)}%` }}
          >
             <div className="w-2 h-2 bg-indigo-500 transform -translate-x-[3px] rotate-45 mt-0" />
          </div>
@@ -90,24 +264,56 @@ export const Timeline: React.FC<TimelineProps> = ({
                   <div className="flex-1 relative h-8 bg-zinc-950/30 rounded overflow-hidden" onClick={(e) => {
                       const rect = e.currentTarget.getBoundingClientRect();
                       const x = e.clientX - rect.left;
-                      const pct = (x / rect.width) * 100;
-                      onSeek(pct);
+                      onSeek(Math.floor((x / rect.width) * frameCount));
                   }}>
                      {conceptAnnotations.map(ann => (
                         <div 
                            key={ann.id}
-                           className={`absolute top-1 bottom-1 rounded-sm opacity-80 cursor-pointer hover:brightness-125 border-l-2 ${ann.isVerified ? 'border-white' : 'border-dashed border-white/50'}`}
+                           onClick={(e) => selectTrack(e, ann.id)}
+                           className={`absolute top-1 bottom-1 rounded-sm opacity-80 cursor-pointer hover:brightness-125 border-l-2 ${ann.isVerified ? 'border-white' : 'border-dashed border-white/50'} ${trackSelection.includes(ann.id) ? 'ring-2 ring-white ring-inset opacity-100' : ''}`}
                            style={{ 
-                              left: `${ann.frameStart}%`, 
-                              width: `${(ann.frameEnd || 100) - (ann.frameStart || 0)}%`,
+                              left: `${trackSpan(ann).left}%`, 
+                              width: `${trackSpan(ann).width}%`,
                               backgroundColor: concept.color,
                               background: `linear-gradient(90deg, ${concept.color} 0%, ${concept.color}80 100%)` // Gradient fade logic
                            }}
                         >
-                           {/* Confidence dip indicator visualization (fake) */}
-                           {!ann.isVerified && (
-                              <div className="absolute bottom-0 left-0 right-0 h-1 bg-yellow-400/50 animate-pulse" />
-                           )}
+                           {/* Confidence dips from propagation, red where the tracker nearly lost the object */}
+                           {isVideo && confidenceDips(ann).map(dip => {
+                              const start = ann.frameStart ?? 0;
+                              const length = (ann.frameEnd ?? frameCount - 1) + 1 - start;
+                              return (
+                                 <div
+                                    key={dip.start}
+                                    title={`Low confidence, frames ${dip.start}-${dip.end} (min ${Math.round(dip.min * 100)}%)`}
+                                    className={`absolute bottom-0 h-1.5 ${dip.min < 0.4 ? 'bg-red-500' : 'bg-yellow-400'}`}
+                                    style={{ left: `${((dip.start - start) / length) * 100}%`, width: `${((dip.end + 1 - dip.start) / length) * 100}%` }}
+                                 />
+                              );
+                           })}
+
+                           {/* Keyframe diamonds, positioned within the track bar; propagated frames have none */}
+                           {isVideo && ann.keyframes?.filter(keyframe => !keyframe.propagated).map(keyframe => {
+                              const start = ann.frameStart ?? 0;
+                              const length = (ann.frameEnd ?? frameCount - 1) + 1 - start;
+                              return (
+                                 <button
+                                    key={keyframe.frame}
+                                    title={`Keyframe ${keyframe.frame} (Alt+click to remove)`}
+                                    className={`absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-black/60 hover:scale-125 transition-transform ${keyframe.frame === currentFrame ? 'bg-white' : 'bg-zinc-200/80'}`}
+                                    style={{ left: `${((keyframe.frame + 0.5 - start) / length) * 100}%` }}
+                                    onClick={(e) => {
+                                       e.stopPropagation();
+                                       if (e.altKey) onRemoveKeyframe?.(ann.id, keyframe.frame);
+                                       else onSeek(keyframe.frame);
+                                    }}
+                                    onContextMenu={(e) => {
+                                       e.preventDefault();
+                                       onRemoveKeyframe?.(ann.id, keyframe.frame);
+                                    }}
+                                 />
+                              );
+                           })}
                         </div>
                      ))}
                   </div>
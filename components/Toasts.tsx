@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { AlertTriangle, Info, X, XCircle } from 'lucide-react';
+
+export type ToastTone = 'error' | 'warning' | 'info';
+
+export interface Toast {
+  id: number;
+  tone: ToastTone;
+  title: string;
+  message?: string;
+}
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const TONES: Record<ToastTone, { icon: React.ReactNode; className: string }> = {
+  error: { icon: <XCircle size={16} className="text-red-400" />, className: 'border-red-500/40' },
+  warning: { icon: <AlertTriangle size={16} className="text-amber-400" />, className: 'border-amber-500/40' },
+  info: { icon: <Info size={16} className="text-indigo-400" />, className: 'border-zinc-700' }
+};
+
+// Newest at the bottom; App removes each toast after a few seconds
+export const ToastStack: React.FC<ToastStackProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-[100] flex flex-col space-y-2 w-80 pointer-events-none">
+    {toasts.map(toast => (
+      <div
+        key={toast.id}
+        role={toast.tone === 'error' ? 'alert' : 'status'}
+        className={`pointer-events-auto flex items-start space-x-3 p-3 rounded-lg bg-zinc-900 border shadow-2xl text-xs ${TONES[toast.tone].className}`}
+      >
+        <span className="shrink-0 mt-px">{TONES[toast.tone].icon}</span>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-zinc-200">{toast.title}</div>
+          {toast.message && <div className="mt-0.5 text-zinc-400 break-words">{toast.message}</div>}
+        </div>
+        <button onClick={() => onDismiss(toast.id)} className="shrink-0 text-zinc-500 hover:text-zinc-300">
+          <X size={14} />
+        </button>
+      </div>
+    ))}
+  </div>
+);
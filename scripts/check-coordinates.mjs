@@ -0,0 +1,75 @@
+// Round-trips a box and a polygon through the canvas mapping and the exporters
+// on non-16:9 images, checking they land on the same image pixels.
+//
+//   node scripts/check-coordinates.mjs
+
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const server = await createServer({ appType: 'custom', logLevel: 'error', server: { middlewareMode: true, hmr: false } });
+const load = (path) => server.ssrLoadModule(path);
+
+try {
+  const viewport = await load('/utils/viewport.ts');
+  const coco = await load('/services/cocoService.ts');
+  const voc = await load('/services/vocService.ts');
+  const yolo = await load('/services/yoloService.ts');
+  const mot = await load('/services/motService.ts');
+  const cvat = await load('/services/cvatService.ts');
+
+  const close = (actual, expected, label) => assert.ok(Math.abs(actual - expected) < 1e-3, `${label}: ${actual} != ${expected}`);
+  const concepts = [{ id: 'car', name: 'car', color: '#ff0000', presenceScore: 1, instanceCount: 1, isVisible: true }];
+
+  // Landscape 4:3 and portrait 3:5; 16:9 would hide a canvas/image mix-up
+  for (const [width, height] of [[640, 480], [480, 800]]) {
+    const image = { id: 'img', src: '', fileName: `${width}x${height}.jpg`, width, height };
+    const label = `${width}x${height}`;
+
+    // A click at image pixel (64, 96) on the fitted canvas
+    const view = { width: 1200, height: 900 };
+    const layout = viewport.viewportLayout(viewport.FIT_VIEWPORT, view.width, view.height, viewport.mediaAspect(width, height));
+    close(layout.width / layout.height, width / height, `${label} canvas aspect`);
+    const click = viewport.viewToImage(layout, layout.left + (64 / width) * layout.width, layout.top + (96 / height) * layout.height);
+    close(click.x * width, 64, `${label} click x`);
+    close(click.y * height, 96, `${label} click y`);
+
+    // Box from image pixel (64, 96) to (320, 288), plus a triangle
+    const box = { xmin: 64 / width, ymin: 96 / height, xmax: 320 / width, ymax: 288 / height };
+    const points = [{ x: 64 / width, y: 96 / height }, { x: 320 / width, y: 96 / height }, { x: 192 / width, y: 288 / height }];
+    const base = { conceptId: 'car', confidence: 0.9, isVerified: true, isMasklet: false, imageId: 'img' };
+    const annotations = [
+      { ...base, id: 'a', type: 'box', box },
+      { ...base, id: 'b', type: 'polygon', box, points }
+    ];
+
+    const exported = coco.exportToCOCO(annotations, concepts, [image]);
+    assert.deepEqual(exported.annotations[0].bbox, [64, 96, 256, 192], `${label} COCO bbox`);
+    assert.deepEqual(exported.annotations[1].segmentation[0], [64, 96, 320, 96, 192, 288], `${label} COCO polygon`);
+    const imported = coco.importFromCOCO(JSON.parse(JSON.stringify(exported)), [image], 'img').annotations;
+    ['xmin', 'ymin', 'xmax', 'ymax'].forEach(k => close(imported[0].box[k], box[k], `${label} COCO round trip ${k}`));
+    imported[1].points.forEach((p, i) => {
+      close(p.x, points[i].x, `${label} COCO round trip point ${i} x`);
+      close(p.y, points[i].y, `${label} COCO round trip point ${i} y`);
+    });
+
+    const xml = voc.exportToPascalVOC(annotations.slice(0, 1), concepts, image);
+    assert.match(xml, /<xmin>65<\/xmin>\s*<ymin>97<\/ymin>\s*<xmax>321<\/xmax>\s*<ymax>289<\/ymax>/, `${label} VOC box`);
+
+    const [cx, cy, w, h] = yolo.exportYOLODetection(annotations.slice(0, 1), concepts).trim().split(' ').slice(1).map(Number);
+    close(cx * width, 192, `${label} YOLO cx`);
+    close(cy * height, 192, `${label} YOLO cy`);
+    close(w * width, 256, `${label} YOLO w`);
+    close(h * height, 192, `${label} YOLO h`);
+
+    const [row] = mot.exportToMOT(annotations.slice(0, 1), concepts, [image])[0].gt.trim().split('\n');
+    assert.deepEqual(row.split(',').slice(2, 6).map(Number), [64, 96, 256, 192], `${label} MOT row`);
+
+    const video = { ...image, mediaType: 'video', duration: 1, fps: 10, frameCount: 10 };
+    const track = { ...annotations[0], frameStart: 0, frameEnd: 9 };
+    assert.match(cvat.exportToCVATVideo([track], concepts, video), /xtl="64" ytl="96" xbr="320" ybr="288"/, `${label} CVAT box`);
+  }
+
+  console.log('Coordinates round-trip on non-16:9 images');
+} finally {
+  await server.close();
+}
@@ -0,0 +1,104 @@
+// Stand-in for a self-hosted SAM server, implementing the contract documented in
+// services/samServerService.ts. Responses are deterministic per prompt.
+//
+//   node scripts/sam-stub-server.mjs [port]
+
+import http from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 8765);
+
+// Small string hash so the same prompt always yields the same instances
+const hash = (text) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const seeded = (seed) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+const ellipse = (box, vertices = 16) => {
+  const cx = (box[0] + box[2]) / 2;
+  const cy = (box[1] + box[3]) / 2;
+  const rx = (box[2] - box[0]) / 2;
+  const ry = (box[3] - box[1]) / 2;
+  return Array.from({ length: vertices }, (_, i) => {
+    const t = (i / vertices) * Math.PI * 2;
+    return [cx + Math.cos(t) * rx, cy + Math.sin(t) * ry];
+  });
+};
+
+const segmentText = ({ prompt = '' }) => {
+  const random = seeded(hash(prompt.toLowerCase()));
+  const count = 1 + Math.floor(random() * 4);
+  return Array.from({ length: count }, () => {
+    const w = 0.08 + random() * 0.2;
+    const h = 0.1 + random() * 0.25;
+    const x = random() * (1 - w);
+    const y = random() * (1 - h);
+    const box = [x, y, x + w, y + h];
+    return { box, score: 0.6 + random() * 0.4, polygon: ellipse(box), label: prompt };
+  });
+};
+
+const segmentPrompts = ({ points = [], boxes = [] }) => {
+  const positives = points.filter((p) => p.label === 1);
+  if (positives.length === 0 && boxes.length === 0) return [];
+  const xs = [...positives.map((p) => p.x), ...boxes.flatMap((b) => [b[0], b[2]])];
+  const ys = [...positives.map((p) => p.y), ...boxes.flatMap((b) => [b[1], b[3]])];
+  const pad = boxes.length ? 0 : 0.05;
+  const box = [
+    Math.max(0, Math.min(...xs) - pad),
+    Math.max(0, Math.min(...ys) - pad),
+    Math.min(1, Math.max(...xs) + pad),
+    Math.min(1, Math.max(...ys) + pad)
+  ];
+  return [{ box, score: 0.9, polygon: ellipse(box) }];
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET' && req.url === '/health') return send(res, 200, { status: 'ok', model: 'sam-stub' });
+
+  if (req.method === 'POST' && (req.url === '/segment/text' || req.url === '/segment/prompts')) {
+    try {
+      const body = await readJson(req);
+      const instances = req.url === '/segment/text' ? segmentText(body) : segmentPrompts(body);
+      return send(res, 200, { instances });
+    } catch (error) {
+      return send(res, 400, { error: `Invalid JSON body: ${error.message}` });
+    }
+  }
+
+  send(res, 404, { error: 'Not found' });
+}).listen(port, () => {
+  console.log(`SAM stub server listening on http://localhost:${port}`);
+});
@@ -0,0 +1,272 @@
+import { Annotation, BoundingBox, Concept, DatasetImage, Point, RLEMask, ShapeType } from "../types";
+import { COLORS, toConceptId } from "../utils/concepts";
+import { decodeCocoCountsString, maskArea, maskToBox } from "../utils/mask";
+
+// Subset of the COCO instances format (https://cocodataset.org/#format-data)
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+  color?: string; // Non-standard, preserves the ledger color on round-trip
+}
+
+// Uncompressed RLE on export; the compressed string form is accepted on import
+export interface CocoRLE {
+  size: [number, number];
+  counts: number[] | string;
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  bbox: [number, number, number, number]; // [x, y, width, height] in pixels
+  area: number;
+  segmentation: number[][] | CocoRLE;
+  iscrowd: 0 | 1;
+  keypoints?: number[];
+  num_keypoints?: number;
+  score?: number;
+  // Non-standard labeller state, ignored by COCO consumers
+  attributes?: {
+    type?: ShapeType;
+    trackId?: number;
+    isVerified?: boolean;
+    isMasklet?: boolean;
+    frameStart?: number;
+    frameEnd?: number;
+    spatialContext?: string;
+    depthLayer?: number;
+    orientation?: string;
+  };
+}
+
+export interface CocoDataset {
+  info: { description: string; version: string; date_created: string };
+  images: CocoImage[];
+  categories: CocoCategory[];
+  annotations: CocoAnnotation[];
+}
+
+export interface CocoImportResult {
+  concepts: Concept[];
+  annotations: Annotation[]; // Assigned to dataset images via imageId
+  imageIds: string[]; // Dataset images the file covers
+  matchedImageCount: number;
+  skippedImageCount: number; // COCO images with no matching file in the dataset
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Shoelace formula, in pixel space
+const polygonArea = (points: Point[], width: number, height: number) => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * width * b.y * height - b.x * width * a.y * height;
+  }
+  return Math.abs(sum) / 2;
+};
+
+const toSegmentation = (ann: Annotation, width: number, height: number): CocoAnnotation['segmentation'] => {
+  if (ann.type === 'mask' && ann.mask) {
+    return { size: ann.mask.size, counts: ann.mask.counts };
+  }
+  if (ann.type === 'polygon' && ann.points && ann.points.length >= 3) {
+    return [ann.points.flatMap(p => [round(p.x * width), round(p.y * height)])];
+  }
+  if (ann.type === 'point') return [];
+
+  const { xmin, ymin, xmax, ymax } = ann.box;
+  return [[
+    round(xmin * width), round(ymin * height),
+    round(xmax * width), round(ymin * height),
+    round(xmax * width), round(ymax * height),
+    round(xmin * width), round(ymax * height)
+  ]];
+};
+
+export const exportToCOCO = (
+  annotations: Annotation[],
+  concepts: Concept[],
+  images: DatasetImage[]
+): CocoDataset => {
+  const categoryIds = new Map(concepts.map((c, index) => [c.id, index + 1]));
+  const imageIndex = new Map(images.map((img, index) => [img.id, { cocoId: index + 1, image: img }]));
+
+  const cocoAnnotations: CocoAnnotation[] = annotations
+    .filter(ann => categoryIds.has(ann.conceptId) && ann.imageId && imageIndex.has(ann.imageId))
+    .map((ann, index) => {
+      const { cocoId, image } = imageIndex.get(ann.imageId!)!;
+      const { width, height } = image;
+      const bbox: CocoAnnotation['bbox'] = [
+        round(ann.box.xmin * width),
+        round(ann.box.ymin * height),
+        round((ann.box.xmax - ann.box.xmin) * width),
+        round((ann.box.ymax - ann.box.ymin) * height)
+      ];
+      const isPolygon = ann.type === 'polygon' && ann.points && ann.points.length >= 3;
+      const isMask = ann.type === 'mask' && ann.mask;
+
+      const cocoAnn: CocoAnnotation = {
+        id: index + 1,
+        image_id: cocoId,
+        category_id: categoryIds.get(ann.conceptId)!,
+        bbox,
+        area: round(isMask ? maskArea(ann.mask!) : isPolygon ? polygonArea(ann.points!, width, height) : bbox[2] * bbox[3]),
+        segmentation: toSegmentation(ann, width, height),
+        iscrowd: 0,
+        score: ann.confidence,
+        attributes: {
+          type: ann.type || 'box',
+          trackId: ann.trackId,
+          isVerified: ann.isVerified,
+          isMasklet: ann.isMasklet,
+          frameStart: ann.frameStart,
+          frameEnd: ann.frameEnd,
+          spatialContext: ann.spatialContext,
+          depthLayer: ann.depthLayer,
+          orientation: ann.orientation
+        }
+      };
+
+      if (ann.type === 'point' && ann.points?.length) {
+        cocoAnn.keypoints = [round(ann.points[0].x * width), round(ann.points[0].y * height), 2];
+        cocoAnn.num_keypoints = 1;
+      }
+
+      return cocoAnn;
+    });
+
+  return {
+    info: {
+      description: 'SAM 3 Labeller export',
+      version: '1.0',
+      date_created: new Date().toISOString()
+    },
+    images: images.map((img, index) => ({ id: index + 1, file_name: img.fileName, width: img.width, height: img.height })),
+    categories: concepts.map((c, index) => ({
+      id: index + 1,
+      name: c.name,
+      supercategory: 'object',
+      color: c.color
+    })),
+    annotations: cocoAnnotations
+  };
+};
+
+const isCocoRLE = (segmentation: unknown): segmentation is CocoRLE =>
+  !!segmentation && !Array.isArray(segmentation) && Array.isArray((segmentation as CocoRLE).size)
+  && ((segmentation as CocoRLE).counts !== undefined);
+
+const toMask = (rle: CocoRLE): RLEMask => ({
+  size: [rle.size[0], rle.size[1]],
+  counts: typeof rle.counts === 'string' ? decodeCocoCountsString(rle.counts) : rle.counts
+});
+
+const isCocoDataset = (data: any): data is CocoDataset =>
+  data && Array.isArray(data.images) && Array.isArray(data.categories) && Array.isArray(data.annotations);
+
+// COCO images are matched to dataset images by file name. A single-image COCO
+// file with no match is applied to the fallback (usually the active) image.
+export const importFromCOCO = (data: unknown, images: DatasetImage[], fallbackImageId: string): CocoImportResult => {
+  if (!isCocoDataset(data)) {
+    throw new Error("Not a COCO instances file: expected images, categories and annotations arrays");
+  }
+  if (data.images.length === 0) {
+    throw new Error("COCO file contains no images");
+  }
+
+  const imageIds = new Map<number, string>();
+  data.images.forEach(cocoImage => {
+    const match = images.find(img => img.fileName === cocoImage.file_name);
+    if (match) imageIds.set(cocoImage.id, match.id);
+  });
+  if (imageIds.size === 0 && data.images.length === 1) {
+    imageIds.set(data.images[0].id, fallbackImageId);
+  }
+  const cocoImages = new Map(data.images.map(img => [img.id, img]));
+
+  const conceptIds = new Map<number, string>();
+  const concepts: Concept[] = data.categories.map((cat, index) => {
+    const id = toConceptId(cat.name);
+    conceptIds.set(cat.id, id);
+    return {
+      id,
+      name: cat.name,
+      color: cat.color || COLORS[index % COLORS.length],
+      presenceScore: 1,
+      instanceCount: 0,
+      isVisible: true
+    };
+  });
+
+  const annotations: Annotation[] = data.annotations
+    .filter(a => imageIds.has(a.image_id) && conceptIds.has(a.category_id))
+    .map(a => {
+      const { width, height } = cocoImages.get(a.image_id)!;
+      const [x, y, w, h] = a.bbox;
+      let box: BoundingBox = {
+        xmin: x / width,
+        ymin: y / height,
+        xmax: (x + w) / width,
+        ymax: (y + h) / height
+      };
+      const attrs = a.attributes || {};
+      const mask = isCocoRLE(a.segmentation) ? toMask(a.segmentation) : undefined;
+      const polygon = Array.isArray(a.segmentation) ? a.segmentation[0] : undefined;
+      const type: ShapeType = mask ? 'mask' : attrs.type || (polygon && polygon.length >= 6 ? 'polygon' : 'box');
+
+      // The mask is authoritative for mask annotations
+      if (mask) box = maskToBox(mask) || box;
+
+      let points: Point[] | undefined;
+      if (type === 'polygon' && polygon) {
+        points = [];
+        for (let i = 0; i + 1 < polygon.length; i += 2) {
+          points.push({ x: polygon[i] / width, y: polygon[i + 1] / height });
+        }
+      } else if (type === 'point' && a.keypoints && a.keypoints.length >= 2) {
+        points = [{ x: a.keypoints[0] / width, y: a.keypoints[1] / height }];
+      }
+
+      return {
+        id: `coco-${a.id}`,
+        conceptId: conceptIds.get(a.category_id)!,
+        trackId: attrs.trackId,
+        box,
+        type,
+        points,
+        mask,
+        confidence: a.score ?? 1,
+        isVerified: attrs.isVerified ?? true,
+        isMasklet: attrs.isMasklet ?? false,
+        frameStart: attrs.frameStart ?? 0,
+        frameEnd: attrs.frameEnd ?? 100,
+        imageId: imageIds.get(a.image_id),
+        spatialContext: attrs.spatialContext,
+        depthLayer: attrs.depthLayer,
+        orientation: attrs.orientation
+      };
+    });
+
+  concepts.forEach(c => {
+    c.instanceCount = annotations.filter(a => a.conceptId === c.id).length;
+  });
+
+  return {
+    concepts,
+    annotations,
+    imageIds: Array.from(new Set(imageIds.values())),
+    matchedImageCount: imageIds.size,
+    skippedImageCount: data.images.length - imageIds.size
+  };
+};
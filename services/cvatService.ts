@@ -0,0 +1,258 @@
+import { Annotation, Concept, DatasetImage, Keyframe, Point } from "../types";
+import { COLORS, toConceptId } from "../utils/concepts";
+import { boxFromPoints } from "../utils/geometry";
+import { getFrameCount, resolveAtFrame } from "../utils/keyframes";
+import { maskArea, maskToPolygon } from "../utils/mask";
+
+// CVAT for video 1.1 XML (https://docs.cvat.ai/docs/manual/advanced/xml_format/).
+// Each track is a list of shapes in pixel coordinates; `keyframe="1"` marks
+// shapes set by hand and `outside="1"` ends the track on that frame.
+
+export interface CvatImportResult {
+  concepts: Concept[];
+  annotations: Annotation[]; // Track ids count from 1 per concept within the file
+  imageId: string;
+  trackCount: number;
+}
+
+type CvatShape = 'box' | 'polygon' | 'points';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const shapeOf = (ann: Annotation): CvatShape =>
+  ann.type === 'polygon' || ann.type === 'mask' ? 'polygon' : ann.type === 'point' ? 'points' : 'box';
+
+// CVAT tracks have no pixel masks, so masks travel as their traced outline
+const outlineOf = (ann: Annotation): Point[] =>
+  ann.type === 'mask' && ann.mask ? maskToPolygon(ann.mask) : ann.points || [];
+
+const shapeXml = (shape: CvatShape, ann: Annotation, frame: number, keyframe: boolean, outside: boolean, width: number, height: number) => {
+  const flags = `frame="${frame}" keyframe="${keyframe ? 1 : 0}" outside="${outside ? 1 : 0}" occluded="0" z_order="0"`;
+  if (shape === 'box') {
+    return `    <box ${flags} xtl="${round(ann.box.xmin * width)}" ytl="${round(ann.box.ymin * height)}" xbr="${round(ann.box.xmax * width)}" ybr="${round(ann.box.ymax * height)}"></box>`;
+  }
+  const outline = outlineOf(ann);
+  // A degenerate outline falls back to the box corners so the track stays valid
+  const points = outline.length >= (shape === 'points' ? 1 : 3)
+    ? outline
+    : [{ x: ann.box.xmin, y: ann.box.ymin }, { x: ann.box.xmax, y: ann.box.ymin }, { x: ann.box.xmax, y: ann.box.ymax }, { x: ann.box.xmin, y: ann.box.ymax }];
+  const encoded = (shape === 'points' ? points.slice(0, 1) : points).map(p => `${round(p.x * width)},${round(p.y * height)}`).join(';');
+  return `    <${shape} ${flags} points="${encoded}"></${shape}>`;
+};
+
+export const exportToCVATVideo = (annotations: Annotation[], concepts: Concept[], video: DatasetImage): string => {
+  const { width, height } = video;
+  const frameCount = getFrameCount(video);
+  const labelled = annotations.filter(a => a.imageId === video.id && concepts.some(c => c.id === a.conceptId));
+
+  const tracks = labelled.map((track, index) => {
+    const name = concepts.find(c => c.id === track.conceptId)!.name;
+    const shape = shapeOf(track);
+    const start = track.frameStart ?? 0;
+    const end = Math.min(track.frameEnd ?? frameCount - 1, frameCount - 1);
+
+    // The first shape must sit on the track's first frame
+    const frames = Array.from(new Set([start, ...(track.keyframes || []).map(k => k.frame)]))
+      .filter(f => f >= start && f <= end)
+      .sort((a, b) => a - b);
+    // An erased (empty) mask keyframe hides the object until the next keyframe
+    const shapes = frames.map(frame => {
+      const resolved = resolveAtFrame(track, frame)!;
+      const hidden = !!resolved.mask && maskArea(resolved.mask) === 0;
+      return shapeXml(shape, resolved, frame, true, hidden, width, height);
+    });
+    if (end + 1 < frameCount) {
+      shapes.push(shapeXml(shape, resolveAtFrame(track, end)!, end + 1, true, true, width, height));
+    }
+
+    return `  <track id="${index}" label="${escapeXml(name)}" source="${track.isVerified ? 'manual' : 'auto'}">
+${shapes.join('\n')}
+  </track>`;
+  });
+
+  const labels = concepts.map(c => `        <label>
+          <name>${escapeXml(c.name)}</name>
+          <color>${escapeXml(c.color)}</color>
+          <type>any</type>
+          <attributes></attributes>
+        </label>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<annotations>
+  <version>1.1</version>
+  <meta>
+    <task>
+      <name>${escapeXml(video.fileName)}</name>
+      <size>${frameCount}</size>
+      <mode>interpolation</mode>
+      <overlap>0</overlap>
+      <start_frame>0</start_frame>
+      <stop_frame>${frameCount - 1}</stop_frame>
+      <labels>
+${labels.join('\n')}
+      </labels>
+      <original_size>
+        <width>${width}</width>
+        <height>${height}</height>
+      </original_size>
+    </task>
+    <dumped>${new Date().toISOString()}</dumped>
+    <source>${escapeXml(video.fileName)}</source>
+  </meta>
+${tracks.join('\n')}
+</annotations>
+`;
+};
+
+const childText = (parent: Element | null | undefined, tag: string) =>
+  parent?.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+const parsePoints = (value: string | null, width: number, height: number): Point[] =>
+  (value || '').split(';').filter(Boolean).map(pair => {
+    const [x, y] = pair.split(',').map(Number);
+    return { x: x / width, y: y / height };
+  });
+
+// Geometry of one CVAT shape element, normalized to 0-1
+const parseShape = (element: Element, width: number, height: number): (Omit<Keyframe, 'frame'> & { type: Annotation['type'] }) | null => {
+  if (element.tagName === 'box') {
+    const value = (name: string) => Number(element.getAttribute(name));
+    return {
+      type: 'box',
+      box: { xmin: value('xtl') / width, ymin: value('ytl') / height, xmax: value('xbr') / width, ymax: value('ybr') / height }
+    };
+  }
+  const points = parsePoints(element.getAttribute('points'), width, height);
+  if (points.length === 0) return null;
+  if (element.tagName === 'points') {
+    const [p] = points;
+    return { type: 'point', points: [p], box: { xmin: p.x, ymin: p.y, xmax: p.x, ymax: p.y } };
+  }
+  return { type: 'polygon', points, box: boxFromPoints(points) };
+};
+
+const SHAPE_TAGS = new Set(['box', 'polygon', 'points']);
+
+// Tracks land on the dataset video whose file name matches <source> or the
+// task name, falling back to the given (usually active) video. A track that
+// leaves and re-enters the frame becomes one annotation per visible stretch,
+// all sharing its track id.
+export const importFromCVATVideo = (xml: string, images: DatasetImage[], fallbackImageId: string): CvatImportResult => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'annotations') {
+    throw new Error("Not a CVAT XML file: expected an <annotations> root");
+  }
+
+  const meta = doc.getElementsByTagName('meta')[0];
+  const source = childText(meta, 'source');
+  const taskName = childText(meta?.getElementsByTagName('task')[0], 'name');
+  const target = images.find(img => img.fileName === source || img.fileName === taskName)
+    || images.find(img => img.id === fallbackImageId);
+  if (!target || target.mediaType !== 'video') {
+    throw new Error(`No video matching "${source || taskName}" in the dataset; open the video before importing its tracks`);
+  }
+
+  if (!target.frameCount && !target.duration) {
+    throw new Error(`Open "${target.fileName}" once so its length is known, then import again`);
+  }
+
+  const originalSize = meta?.getElementsByTagName('original_size')[0];
+  const width = Number(childText(originalSize, 'width')) || target.width;
+  const height = Number(childText(originalSize, 'height')) || target.height;
+  if (!width || !height) throw new Error("CVAT file has no original_size and the video size is unknown");
+
+  const lastFrame = getFrameCount(target) - 1;
+
+  const concepts: Concept[] = [];
+  const conceptFor = (name: string, color?: string) => {
+    const id = toConceptId(name);
+    if (!concepts.some(c => c.id === id)) {
+      concepts.push({ id, name, color: color || COLORS[concepts.length % COLORS.length], presenceScore: 1, instanceCount: 0, isVisible: true });
+    }
+    return id;
+  };
+  Array.from(meta?.getElementsByTagName('label') || []).forEach(label => {
+    const name = childText(label, 'name');
+    if (name) conceptFor(name, childText(label, 'color') || undefined);
+  });
+
+  const tracks = Array.from(doc.getElementsByTagName('track'));
+  if (tracks.length === 0) throw new Error("CVAT file contains no tracks; only CVAT for video 1.1 is supported");
+
+  const trackCounts = new Map<string, number>();
+  const annotations: Annotation[] = [];
+
+  tracks.forEach((track, trackIndex) => {
+    const conceptId = conceptFor(track.getAttribute('label') || 'object');
+    const trackId = (trackCounts.get(conceptId) || 0) + 1;
+    trackCounts.set(conceptId, trackId);
+    const isVerified = track.getAttribute('source') !== 'auto';
+
+    const shapes = Array.from(track.children)
+      .filter(el => SHAPE_TAGS.has(el.tagName))
+      .flatMap(el => {
+        const geometry = parseShape(el, width, height);
+        return geometry ? [{
+          frame: Number(el.getAttribute('frame')),
+          keyframe: el.getAttribute('keyframe') !== '0',
+          outside: el.getAttribute('outside') === '1',
+          geometry
+        }] : [];
+      })
+      .filter(s => Number.isFinite(s.frame) && s.frame <= lastFrame)
+      .sort((a, b) => a.frame - b.frame);
+
+    // Visible stretches between outside markers
+    const segments: (typeof shapes)[] = [];
+    shapes.forEach(shape => {
+      const current = segments[segments.length - 1];
+      if (shape.outside) {
+        if (current && current.length) segments.push([]);
+        return;
+      }
+      if (!current) segments.push([shape]);
+      else current.push(shape);
+    });
+
+    segments.filter(s => s.length > 0).forEach((segment, segmentIndex) => {
+      const next = shapes.find(s => s.outside && s.frame > segment[segment.length - 1].frame);
+      const picked = segment.filter(s => s.keyframe);
+      const keyframes: Keyframe[] = (picked.length ? picked : [segment[0]]).map(s => ({
+        frame: s.frame,
+        box: s.geometry.box,
+        points: s.geometry.points
+      }));
+      const first = keyframes[0];
+
+      annotations.push({
+        id: `cvat-${Date.now()}-${trackIndex}-${segmentIndex}`,
+        conceptId,
+        trackId,
+        type: segment[0].geometry.type,
+        box: first.box,
+        points: first.points,
+        keyframes,
+        frameStart: segment[0].frame,
+        frameEnd: next ? next.frame - 1 : lastFrame,
+        confidence: 1,
+        isVerified,
+        isMasklet: false,
+        imageId: target.id
+      });
+    });
+  });
+
+  concepts.forEach(c => {
+    c.instanceCount = annotations.filter(a => a.conceptId === c.id).length;
+  });
+
+  return { concepts, annotations, imageId: target.id, trackCount: tracks.length };
+};
@@ -0,0 +1,99 @@
+import { Annotation, BoundingBox, ModelType, PointPrompt } from "../types";
+import { detectObjects, GEMINI_PROMPT_VERSION } from "./geminiService";
+import { DetectionError } from "./detectionError";
+import { createMockBackend } from "./mockBackend";
+import { createSamServerBackend } from "./samServerService";
+
+export interface BackendCapabilities {
+  textPrompts: boolean; // Open-vocabulary "find all <concept>"
+  pointPrompts: boolean; // Positive/negative click refinement
+  boxPrompts: boolean;
+  masks: boolean; // Returns polygons or pixel masks rather than boxes only
+  spatialReasoning: boolean; // Fills spatialContext / depthLayer / orientation
+}
+
+export interface HealthStatus {
+  ok: boolean;
+  latencyMs?: number;
+  message?: string;
+}
+
+// Encoding is deferred so backends that never look at pixels do not pay for it
+export interface DetectionImage {
+  fileName: string;
+  width: number;
+  height: number;
+  getBase64: () => Promise<string>; // Raw base64, no data: prefix
+  mimeType: string;
+  region?: BoundingBox; // Part of the source image shown when cropped (e.g. a tile), normalized
+}
+
+// Several concepts can go in one request; each returned annotation's
+// conceptId is the prompt it answers
+export interface TextDetectionRequest {
+  image: DetectionImage;
+  prompts: string[];
+  signal?: AbortSignal;
+  onWarning?: (message: string) => void; // Partial results, e.g. detections dropped as invalid
+}
+
+export interface PromptDetectionRequest {
+  image: DetectionImage;
+  points: PointPrompt[];
+  boxes?: BoundingBox[];
+  conceptId: string;
+  signal?: AbortSignal;
+}
+
+export interface DetectionBackend {
+  id: ModelType;
+  name: string;
+  capabilities: BackendCapabilities;
+  promptVersion?: number; // Bump when prompts or response parsing change; keys cached results
+  cacheTag?: () => string; // Fingerprint of settings that change results (server, seed...); keys cached results
+  detectByText: (request: TextDetectionRequest) => Promise<Annotation[]>;
+  detectByPrompts: (request: PromptDetectionRequest) => Promise<Annotation[]>;
+  checkHealth: () => Promise<HealthStatus>;
+}
+
+const geminiBackend: DetectionBackend = {
+  id: ModelType.GEMINI,
+  name: 'Gemini 3 Pro (Reasoning)',
+  capabilities: { textPrompts: true, pointPrompts: false, boxPrompts: false, masks: false, spatialReasoning: true },
+  promptVersion: GEMINI_PROMPT_VERSION,
+  detectByText: async ({ image, prompts, signal, onWarning }) => {
+    const result = await detectObjects(process.env.API_KEY || '', await image.getBase64(), prompts, signal);
+    if (result.ok === false) throw new DetectionError(result.kind, result.message);
+    if (result.rejected > 0) onWarning?.(`Dropped ${result.rejected} detection${result.rejected === 1 ? '' : 's'} with an invalid box or label`);
+    return result.annotations;
+  },
+  detectByPrompts: async () => {
+    throw new Error("Gemini does not support point or box prompts");
+  },
+  checkHealth: async () => process.env.API_KEY
+    ? { ok: true, message: 'API key configured' }
+    : { ok: false, message: 'GEMINI_API_KEY is not set' }
+};
+
+export const SAM_SERVER_URL_KEY = 'sam3-labeller.samServerUrl';
+export const DEFAULT_SAM_SERVER_URL = 'http://localhost:8765';
+
+export const getSamServerUrl = (): string => {
+  try {
+    return localStorage.getItem(SAM_SERVER_URL_KEY) || DEFAULT_SAM_SERVER_URL;
+  } catch {
+    return DEFAULT_SAM_SERVER_URL;
+  }
+};
+
+export const setSamServerUrl = (url: string) => {
+  localStorage.setItem(SAM_SERVER_URL_KEY, url.trim().replace(/\/+$/, ''));
+};
+
+const backends: Record<ModelType, DetectionBackend> = {
+  [ModelType.SAM3]: createMockBackend(),
+  [ModelType.GEMINI]: geminiBackend,
+  [ModelType.SAM_SERVER]: createSamServerBackend(getSamServerUrl)
+};
+
+export const getDetectionBackend = (model: ModelType): DetectionBackend => backends[model];
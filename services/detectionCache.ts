@@ -0,0 +1,145 @@
+import { Annotation } from "../types";
+import { toConceptId } from "../utils/concepts";
+import { hashString } from "../utils/random";
+
+// Text detection results, cached per concept so re-adding a deleted concept or
+// switching models back does not pay for the request again. Entries live in
+// memory and in IndexedDB, keyed by everything that changes the output:
+// backend and its settings, image content, normalized prompt, the backend's
+// prompt/schema version and the preprocessing applied. Results are stored in full-image
+// coordinates, before they are placed on the timeline or deduplicated.
+
+// Bump when the stored entry shape changes; old entries are then ignored
+const CACHE_FORMAT_VERSION = 1;
+
+const DB_NAME = 'sam3-labeller-cache';
+const DB_VERSION = 1;
+const STORE = 'detections';
+
+export interface DetectionCacheKey {
+  model: string;
+  backendTag: string; // Backend settings fingerprint, e.g. server URL or mock seed
+  imageHash: string;
+  prompt: string;
+  promptVersion: number; // Backend prompt/response schema version
+  variant: string; // Preprocessing fingerprint
+}
+
+interface CacheEntry {
+  key: string;
+  annotations: Annotation[];
+  createdAt: number;
+}
+
+export interface EncodedImage {
+  base64: string; // Raw base64, no data: prefix
+  hash: string;
+}
+
+export const cacheKeyString = ({ model, backendTag, imageHash, prompt, promptVersion, variant }: DetectionCacheKey) =>
+  [`v${CACHE_FORMAT_VERSION}`, model, backendTag, imageHash, toConceptId(prompt), `p${promptVersion}`, variant].join('|');
+
+// SHA-256 where Web Crypto is available (secure contexts), FNV-1a otherwise
+export const hashContent = async (value: string): Promise<string> => {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  return `fnv-${hashString(value).toString(16)}`;
+};
+
+// Encodings of the last few images, so submitting again on the same image
+// neither re-reads nor re-hashes it. Large images make big strings, hence the cap.
+const MAX_ENCODED = 4;
+const encoded = new Map<string, Promise<EncodedImage>>();
+
+export const encodeOnce = (key: string, encode: () => Promise<string>): Promise<EncodedImage> => {
+  const existing = encoded.get(key);
+  if (existing) {
+    // Re-insert to mark as most recently used
+    encoded.delete(key);
+    encoded.set(key, existing);
+    return existing;
+  }
+  const pending = encode().then(async base64 => ({ base64, hash: await hashContent(base64) }));
+  encoded.set(key, pending);
+  pending.catch(() => encoded.delete(key));
+  while (encoded.size > MAX_ENCODED) encoded.delete(encoded.keys().next().value!);
+  return pending;
+};
+
+const memory = new Map<string, Annotation[]>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+
+// A missing or unreadable persistent cache only costs a fresh request
+export const getCachedDetections = async (key: DetectionCacheKey): Promise<Annotation[] | null> => {
+  const id = cacheKeyString(key);
+  const hit = memory.get(id);
+  if (hit) return hit;
+  try {
+    const entry = await runRequest<CacheEntry | undefined>('readonly', store => store.get(id));
+    if (!entry) return null;
+    memory.set(id, entry.annotations);
+    return entry.annotations;
+  } catch (error) {
+    console.warn("Detection cache read failed", error);
+    return null;
+  }
+};
+
+export const putCachedDetections = async (key: DetectionCacheKey, annotations: Annotation[]): Promise<void> => {
+  const id = cacheKeyString(key);
+  memory.set(id, annotations);
+  try {
+    await runRequest('readwrite', store => store.put({ key: id, annotations, createdAt: Date.now() } as CacheEntry));
+  } catch (error) {
+    console.warn("Detection cache write failed", error);
+  }
+};
+
+export const countCachedDetections = async (): Promise<number> => {
+  try {
+    return await runRequest<number>('readonly', store => store.count());
+  } catch {
+    return memory.size;
+  }
+};
+
+export const clearDetectionCache = async (): Promise<void> => {
+  memory.clear();
+  await runRequest('readwrite', store => store.clear());
+};
@@ -0,0 +1,18 @@
+import { GeminiErrorKind } from "./geminiService";
+
+export type DetectionErrorKind = GeminiErrorKind;
+
+// Thrown by backends so callers can tell "nothing found" (an empty result)
+// from a failed request, and say why it failed
+export class DetectionError extends Error {
+  kind: DetectionErrorKind;
+
+  constructor(kind: DetectionErrorKind, message: string) {
+    super(message);
+    this.name = 'DetectionError';
+    this.kind = kind;
+  }
+}
+
+export const isCancelled = (error: unknown) =>
+  (error instanceof DetectionError && error.kind === 'cancelled') || (error as Error)?.name === 'AbortError';
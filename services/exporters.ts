@@ -0,0 +1,122 @@
+import { Annotation, Concept, DatasetImage } from "../types";
+import { exportToCOCO } from "./cocoService";
+import { exportYOLOClasses, exportYOLODetection, exportYOLOSegmentation } from "./yoloService";
+import { exportToPascalVOC } from "./vocService";
+import { exportMOTClasses, exportToMOT } from "./motService";
+import { exportToCVATVideo } from "./cvatService";
+import { isVideo } from "../utils/keyframes";
+
+export interface ExportContext {
+  annotations: Annotation[]; // Across the whole dataset, grouped by imageId
+  concepts: Concept[];
+  images: DatasetImage[];
+}
+
+export interface ExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface DatasetExporter {
+  id: string; // e.g. 'coco', 'yolo', 'yolo-seg', 'voc', 'mot', 'cvat-video'
+  label: string;
+  description: string;
+  export: (context: ExportContext) => ExportFile[];
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Formats with one label file per image
+const perImage = (
+  { annotations, images }: ExportContext,
+  toFile: (image: DatasetImage, imageAnnotations: Annotation[]) => ExportFile
+): ExportFile[] =>
+  images.map(image => toFile(image, annotations.filter(a => a.imageId === image.id)));
+
+const exporters: DatasetExporter[] = [
+  {
+    id: 'coco',
+    label: 'COCO JSON',
+    description: 'COCO instances with polygon segmentation',
+    export: ({ annotations, concepts, images }) => [{
+      fileName: images.length === 1 ? `${baseName(images[0].fileName)}_coco.json` : 'instances.json',
+      content: JSON.stringify(exportToCOCO(annotations, concepts, images), null, 2),
+      mimeType: 'application/json'
+    }]
+  },
+  {
+    id: 'yolo',
+    label: 'YOLO (detect)',
+    description: 'Normalized cx/cy/w/h label file per image plus classes.txt',
+    export: (context) => [
+      ...perImage(context, (image, anns) => ({
+        fileName: `labels/${baseName(image.fileName)}.txt`,
+        content: exportYOLODetection(anns, context.concepts),
+        mimeType: 'text/plain'
+      })),
+      { fileName: 'classes.txt', content: exportYOLOClasses(context.concepts), mimeType: 'text/plain' }
+    ]
+  },
+  {
+    id: 'yolo-seg',
+    label: 'YOLO (segment)',
+    description: 'Normalized polygon label file per image plus classes.txt',
+    export: (context) => [
+      ...perImage(context, (image, anns) => ({
+        fileName: `labels/${baseName(image.fileName)}.txt`,
+        content: exportYOLOSegmentation(anns, context.concepts),
+        mimeType: 'text/plain'
+      })),
+      { fileName: 'classes.txt', content: exportYOLOClasses(context.concepts), mimeType: 'text/plain' }
+    ]
+  },
+  {
+    id: 'voc',
+    label: 'Pascal VOC XML',
+    description: 'One VOC annotation XML per image',
+    export: (context) => perImage(context, (image, anns) => ({
+      fileName: `Annotations/${baseName(image.fileName)}.xml`,
+      content: exportToPascalVOC(anns, context.concepts, image),
+      mimeType: 'application/xml'
+    }))
+  },
+  {
+    id: 'mot',
+    label: 'MOTChallenge',
+    description: 'gt.txt and seqinfo.ini per video; still images form one sequence',
+    export: ({ annotations, concepts, images }) => [
+      ...exportToMOT(annotations, concepts, images).flatMap(seq => [
+        { fileName: `${seq.name}/gt/gt.txt`, content: seq.gt, mimeType: 'text/plain' },
+        { fileName: `${seq.name}/seqinfo.ini`, content: seq.seqinfo, mimeType: 'text/plain' }
+      ]),
+      { fileName: 'classes.txt', content: exportMOTClasses(concepts), mimeType: 'text/plain' }
+    ]
+  },
+  {
+    id: 'cvat-video',
+    label: 'CVAT video 1.1',
+    description: 'One CVAT for video XML per video, tracks with keyframe/outside flags',
+    export: ({ annotations, concepts, images }) => {
+      const videos = images.filter(isVideo);
+      if (videos.length === 0) throw new Error("CVAT video export needs at least one video in the dataset");
+      return videos.map(video => ({
+        fileName: `${baseName(video.fileName)}_cvat.xml`,
+        content: exportToCVATVideo(annotations, concepts, video),
+        mimeType: 'application/xml'
+      }));
+    }
+  }
+];
+
+export const getExporters = (): DatasetExporter[] => exporters;
+
+export const getExporter = (id: string): DatasetExporter | undefined =>
+  exporters.find(e => e.id === id);
+
+// Lets additional formats plug in without touching the header UI
+export const registerExporter = (exporter: DatasetExporter) => {
+  const index = exporters.findIndex(e => e.id === exporter.id);
+  if (index >= 0) exporters[index] = exporter;
+  else exporters.push(exporter);
+};
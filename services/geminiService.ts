@@ -1,6 +1,6 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Annotation, BoundingBox } from "../types";
+import { ApiError, GenerateContentResponse, GoogleGenAI, Type, Schema } from "@google/genai";
+import { Annotation, BoundingBox, Keyframe, PointPrompt } from "../types";
 
 const BOX_SCHEMA: Schema = {
   type: Type.OBJECT,
@@ -27,108 +27,200 @@ const BOX_SCHEMA: Schema = {
   }
 };
 
-const RESPONSE_SCHEMA: Schema = {
+// Bump when the detection prompt or response schema changes; it keys cached results
+export const GEMINI_PROMPT_VERSION = 1;
+
+// The label is constrained to the requested concept names so each instance
+// maps back to exactly one of them
+const responseSchema = (concepts: string[]): Schema => ({
   type: Type.ARRAY,
-  items: BOX_SCHEMA
-};
+  items: {
+    ...BOX_SCHEMA,
+    properties: {
+      ...BOX_SCHEMA.properties,
+      label: { type: Type.STRING, format: 'enum', enum: concepts, description: "Which requested concept this instance is." }
+    }
+  }
+});
 
-export const detectObjects = async (
-  apiKey: string,
-  imageBase64: string,
-  prompt: string
-): Promise<Annotation[]> => {
-  if (!apiKey) {
-    console.warn("No API Key provided for Gemini");
-    return [];
+// Failures the caller can tell apart. `auth`, `request` and `invalid-response`
+// are permanent; `rate-limit` and `network` are retried before being reported.
+export type GeminiErrorKind = 'auth' | 'rate-limit' | 'network' | 'invalid-response' | 'request' | 'cancelled';
+
+export type GeminiResult =
+  | { ok: true; annotations: Annotation[]; rejected: number } // rejected: items dropped for an invalid box_2d or label
+  | { ok: false; kind: GeminiErrorKind; message: string };
+
+const RETRY_DELAYS_MS = [1000, 2000, 4000];
+
+const failure = (kind: GeminiErrorKind, message: string): GeminiResult => ({ ok: false, kind, message });
+
+const CANCELLED = failure('cancelled', 'Detection cancelled');
+
+const isAbort = (error: unknown) => (error as Error)?.name === 'AbortError';
+
+// Resolves after `ms` with up to 20% jitter, or rejects as soon as the signal aborts
+const backoff = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Detection cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms * (1 + Math.random() * 0.2));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const classifyError = (error: unknown, signal?: AbortSignal): { result: GeminiResult; retryable: boolean } => {
+  if (signal?.aborted || isAbort(error)) return { result: CANCELLED, retryable: false };
+  const message = (error as Error)?.message || String(error);
+  if (error instanceof ApiError) {
+    const { status } = error;
+    if (status === 401 || status === 403 || /api key/i.test(message)) {
+      return { result: failure('auth', 'Gemini rejected the API key; check GEMINI_API_KEY'), retryable: false };
+    }
+    if (status === 429) return { result: failure('rate-limit', 'Gemini quota or rate limit exceeded; try again later'), retryable: true };
+    if (status === 408 || status >= 500) return { result: failure('network', `Gemini is unavailable (HTTP ${status})`), retryable: true };
+    return { result: failure('request', `Gemini rejected the request (HTTP ${status}): ${message}`), retryable: false };
   }
+  // fetch() rejects with a TypeError when the network is down; only that is worth retrying
+  if (error instanceof TypeError) return { result: failure('network', `Could not reach Gemini: ${message}`), retryable: true };
+  // Parse and validation failures would fail the same way again
+  if (error instanceof SyntaxError) return { result: failure('invalid-response', `Gemini returned an unreadable response: ${message}`), retryable: false };
+  return { result: failure('request', `Gemini request failed: ${message}`), retryable: false };
+};
 
+// box_2d is [ymin, xmin, ymax, xmax] on a 0-1000 grid; anything else is dropped
+export const parseBox2d = (value: unknown): BoundingBox | null => {
+  if (!Array.isArray(value) || value.length !== 4) return null;
+  if (!value.every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1000)) return null;
+  const [ymin, xmin, ymax, xmax] = value as number[];
+  if (ymin >= ymax || xmin >= xmax) return null;
+  return { ymin: ymin / 1000, xmin: xmin / 1000, ymax: ymax / 1000, xmax: xmax / 1000 };
+};
+
+// Exact names first; a lone concept claims every instance whatever its label
+const matchLabel = (label: unknown, concepts: string[]): string | null => {
+  const wanted = typeof label === 'string' ? label.trim().toLowerCase() : '';
+  return concepts.find(c => c.toLowerCase() === wanted) ?? (concepts.length === 1 ? concepts[0] : null);
+};
+
+const parseDetections = (jsonText: string | undefined, concepts: string[]): GeminiResult => {
+  if (!jsonText) return failure('invalid-response', 'Gemini returned an empty response (the request may have been blocked)');
+
+  let data: unknown;
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const systemInstruction = `
-      You are an advanced spatial reasoning engine for a computer vision labeling tool (SAM 3 Labeller). 
-      Identify all instances of the user's requested concept in the image.
-      For each instance, provide:
-      1. Precise bounding box.
-      2. Confidence score.
-      3. Spatial Context: Describe its relationship to the scene or other objects (occlusion, position).
-      4. Estimated Depth: A relative integer from 0 (farthest) to 10 (closest).
-      5. Orientation: Which way is the object facing?
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: imageBase64 } },
-          { text: `Find all instances of: ${prompt}. Analyze their spatial placement carefully.` }
-        ]
-      },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: RESPONSE_SCHEMA,
-        temperature: 0.3, 
-      }
+    data = JSON.parse(jsonText);
+  } catch {
+    return failure('invalid-response', 'Gemini returned malformed JSON');
+  }
+  if (!Array.isArray(data)) return failure('invalid-response', 'Gemini returned JSON that is not a list of detections');
+
+  const annotations: Annotation[] = [];
+  data.forEach((item: any, index: number) => {
+    const box = parseBox2d(item?.box_2d);
+    const concept = matchLabel(item?.label, concepts);
+    if (!box || !concept) return;
+    annotations.push({
+      id: `gemini-${Date.now()}-${index}`,
+      conceptId: concept,
+      box,
+      confidence: typeof item.confidence === 'number' && item.confidence > 0 && item.confidence <= 1 ? item.confidence : 0.85,
+      isVerified: false,
+      isMasklet: true,
+      frameStart: 0,
+      frameEnd: 100,
+      spatialContext: item.spatial_context || "Spatial analysis unavailable",
+      depthLayer: item.estimated_depth ?? 5,
+      orientation: item.orientation || "Unknown"
     });
+  });
+  return { ok: true, annotations, rejected: data.length - annotations.length };
+};
 
-    const jsonText = response.text;
-    if (!jsonText) return [];
+// One request covers every concept, so the image is uploaded once per batch.
+// Returned annotations carry the matching concept name as their conceptId.
+export const detectObjects = async (
+  apiKey: string,
+  imageBase64: string,
+  concepts: string[],
+  signal?: AbortSignal
+): Promise<GeminiResult> => {
+  if (!apiKey) return failure('auth', 'No Gemini API key configured; set GEMINI_API_KEY');
 
-    const data = JSON.parse(jsonText);
-    
-    // Map response to internal Annotation type
-    return data.map((item: any, index: number) => {
-      const box = item.box_2d;
-      
-      const normalizedBox: BoundingBox = {
-        ymin: box[0] / 1000,
-        xmin: box[1] / 1000,
-        ymax: box[2] / 1000,
-        xmax: box[3] / 1000
-      };
-
-      return {
-        id: `gemini-${Date.now()}-${index}`,
-        conceptId: prompt,
-        box: normalizedBox,
-        confidence: item.confidence || 0.85,
-        isVerified: false,
-        isMasklet: true,
-        frameStart: 0,
-        frameEnd: 100,
-        spatialContext: item.spatial_context || "Spatial analysis unavailable",
-        depthLayer: item.estimated_depth ?? 5,
-        orientation: item.orientation || "Unknown"
-      };
-    });
+  const ai = new GoogleGenAI({ apiKey });
+  
+  const systemInstruction = `
+    You are an advanced spatial reasoning engine for a computer vision labeling tool (SAM 3 Labeller). 
+    Identify all instances of each of the user's requested concepts in the image.
+    For each instance, provide:
+    1. Precise bounding box.
+    2. Label: the requested concept it is an instance of, spelled exactly as requested.
+    3. Confidence score.
+    4. Spatial Context: Describe its relationship to the scene or other objects (occlusion, position).
+    5. Estimated Depth: A relative integer from 0 (farthest) to 10 (closest).
+    6. Orientation: Which way is the object facing?
+  `;
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return [];
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) return CANCELLED;
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: 'gemini-3-pro-preview',
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/jpeg', data: imageBase64 } },
+            { text: `Find all instances of: ${concepts.join(', ')}. Analyze their spatial placement carefully.` }
+          ]
+        },
+        config: {
+          systemInstruction: systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: responseSchema(concepts),
+          temperature: 0.3, 
+          abortSignal: signal
+        }
+      });
+    } catch (error) {
+      const { result, retryable } = classifyError(error, signal);
+      if (!retryable || attempt >= RETRY_DELAYS_MS.length) return result;
+      console.warn(`Gemini request failed, retrying (${attempt + 1}/${RETRY_DELAYS_MS.length})`, error);
+      try {
+        await backoff(RETRY_DELAYS_MS[attempt], signal);
+      } catch {
+        return CANCELLED;
+      }
+      continue;
+    }
+    // Outside the retry: a response that does not parse or validate fails straight away
+    return parseDetections(response.text, concepts);
   }
 };
 
 
-// Mock function for SAM 3 behavior simulation with fake spatial data
-export const mockSAM3Detect = (concept: string): Annotation[] => {
-  const count = Math.floor(Math.random() * 5) + 2; 
+// Mock function for SAM 3 behavior simulation with fake spatial data. Pass a
+// seeded `random` for repeatable output.
+export const mockSAM3Detect = (concept: string, random: () => number = Math.random): Annotation[] => {
+  const count = Math.floor(random() * 5) + 2; 
   const annotations: Annotation[] = [];
 
   for (let i = 0; i < count; i++) {
-    const width = Math.random() * 0.2 + 0.05;
-    const height = Math.random() * 0.3 + 0.1;
-    const x = Math.random() * (1 - width);
-    const y = Math.random() * (1 - height);
-    const conf = Math.random() * 0.4 + 0.6;
+    const width = random() * 0.2 + 0.05;
+    const height = random() * 0.3 + 0.1;
+    const x = random() * (1 - width);
+    const y = random() * (1 - height);
+    const conf = random() * 0.4 + 0.6;
     
     // Mock Spatial Data
-    const depth = Math.floor(Math.random() * 10);
+    const depth = Math.floor(random() * 10);
     const contexts = ["Partially occluded", "In open space", "Near edge", "Cluster center"];
     const orientations = ["Front", "Side-Profile", "Back", "Three-quarter"];
 
     annotations.push({
-      id: `sam3-${Date.now()}-${i}`,
+      id: `sam3-${Date.now()}-${concept}-${i}`,
       conceptId: concept,
       box: {
         ymin: y,
@@ -141,10 +233,119 @@ export const mockSAM3Detect = (concept: string): Annotation[] => {
       isMasklet: true,
       frameStart: 0,
       frameEnd: 100,
-      spatialContext: contexts[Math.floor(Math.random() * contexts.length)],
+      spatialContext: contexts[Math.floor(random() * contexts.length)],
       depthLayer: depth,
-      orientation: orientations[Math.floor(Math.random() * orientations.length)]
+      orientation: orientations[Math.floor(random() * orientations.length)]
     });
   }
   return annotations;
 };
+
+// Mock prompt-based segmentation. Deterministic: the mask is a star-shaped outline
+// around the positive clicks (bounded by the prompt box if any) that is pulled in
+// wherever a negative click would otherwise fall inside it.
+export const mockSAM3Refine = (conceptId: string, points: PointPrompt[], promptBox?: BoundingBox): Annotation[] => {
+  const positives = points.filter(p => p.label === 1);
+  const negatives = points.filter(p => p.label === 0);
+  if (positives.length === 0 && !promptBox) return [];
+
+  const VERTICES = 32;
+  const MARGIN = 0.04;
+
+  const center = positives.length > 0
+    ? {
+        x: positives.reduce((sum, p) => sum + p.x, 0) / positives.length,
+        y: positives.reduce((sum, p) => sum + p.y, 0) / positives.length
+      }
+    : { x: (promptBox!.xmin + promptBox!.xmax) / 2, y: (promptBox!.ymin + promptBox!.ymax) / 2 };
+
+  const outline = Array.from({ length: VERTICES }, (_, i) => {
+    const theta = (i / VERTICES) * Math.PI * 2;
+    const dir = { x: Math.cos(theta), y: Math.sin(theta) };
+
+    let radius: number;
+    if (promptBox) {
+      // Ellipse inscribed in the prompt box
+      const rx = (promptBox.xmax - promptBox.xmin) / 2;
+      const ry = (promptBox.ymax - promptBox.ymin) / 2;
+      radius = (rx * ry) / Math.sqrt((ry * dir.x) ** 2 + (rx * dir.y) ** 2 || 1);
+    } else {
+      radius = 0.05;
+    }
+
+    // Grow to cover every positive click in this direction
+    positives.forEach(p => {
+      const projection = (p.x - center.x) * dir.x + (p.y - center.y) * dir.y;
+      const lateral = Math.abs((p.x - center.x) * dir.y - (p.y - center.y) * dir.x);
+      if (lateral < MARGIN * 2) radius = Math.max(radius, projection + MARGIN);
+    });
+
+    // Shrink in front of negative clicks
+    negatives.forEach(n => {
+      const projection = (n.x - center.x) * dir.x + (n.y - center.y) * dir.y;
+      const lateral = Math.abs((n.x - center.x) * dir.y - (n.y - center.y) * dir.x);
+      if (projection > 0 && lateral < MARGIN * 2) radius = Math.min(radius, Math.max(0.01, projection - MARGIN));
+    });
+
+    return {
+      x: Math.max(0, Math.min(1, center.x + dir.x * radius)),
+      y: Math.max(0, Math.min(1, center.y + dir.y * radius))
+    };
+  });
+
+  const xs = outline.map(p => p.x);
+  const ys = outline.map(p => p.y);
+
+  return [{
+    id: `sam3-prompt-${Date.now()}`,
+    conceptId,
+    box: { xmin: Math.min(...xs), ymin: Math.min(...ys), xmax: Math.max(...xs), ymax: Math.max(...ys) },
+    type: 'polygon',
+    points: outline,
+    // More agreeing clicks make the mock more confident
+    confidence: Math.min(0.99, 0.75 + positives.length * 0.05 + negatives.length * 0.03),
+    isVerified: false,
+    isMasklet: true,
+    frameStart: 0,
+    frameEnd: 100
+  }];
+};
+
+// Mock video propagation. Deterministic per seed: the box drifts at a constant
+// velocity with a slow wobble, and confidence decays with distance from the
+// prompt frame with periodic occlusion-like dips. The track is lost once
+// confidence falls too low or the object leaves the frame.
+export const mockSAM3Track = (seed: string, box: BoundingBox, startFrame: number, frames: number[]): Keyframe[] => {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  const random = (n: number) => {
+    const x = Math.sin(hash + n * 12.9898) * 43758.5453;
+    return x - Math.floor(x);
+  };
+
+  const velocity = { x: (random(1) - 0.5) * 0.006, y: (random(2) - 0.5) * 0.004 };
+  const phase = random(3) * Math.PI * 2;
+  const growth = (random(4) - 0.5) * 0.002;
+  const center = { x: (box.xmin + box.xmax) / 2, y: (box.ymin + box.ymax) / 2 };
+  const size = { w: box.xmax - box.xmin, h: box.ymax - box.ymin };
+
+  const tracked: Keyframe[] = [];
+  for (const frame of frames) {
+    const t = frame - startFrame;
+    const scale = Math.max(0.5, 1 + growth * t);
+    const x = center.x + velocity.x * t + Math.sin(t * 0.15 + phase) * 0.004;
+    const y = center.y + velocity.y * t;
+    const dip = Math.max(0, Math.sin(Math.abs(t) * 0.05 + phase)) ** 12 * 0.45;
+    const confidence = Math.max(0, 0.95 - Math.abs(t) * 0.0015 - dip);
+    if (confidence < 0.2 || x < 0 || x > 1 || y < 0 || y > 1) break;
+
+    const w = (size.w * scale) / 2;
+    const h = (size.h * scale) / 2;
+    tracked.push({
+      frame,
+      box: { xmin: Math.max(0, x - w), ymin: Math.max(0, y - h), xmax: Math.min(1, x + w), ymax: Math.min(1, y + h) },
+      confidence
+    });
+  }
+  return tracked;
+};
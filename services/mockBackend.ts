@@ -0,0 +1,233 @@
+import { Annotation, BoundingBox, ModelType, Point } from "../types";
+import { toConceptId } from "../utils/concepts";
+import { boxArea, boxFromPoints, clipPolygonToBox } from "../utils/geometry";
+import { hashString, seededRandom } from "../utils/random";
+import { mockSAM3Detect, mockSAM3Refine } from "./geminiService";
+import { DetectionError, DetectionErrorKind } from "./detectionError";
+import type { DetectionBackend } from "./detectionBackend";
+
+/*
+ * Offline mock backend. Detections are a pure function of the concept, the
+ * image content and the settings' seed, so demos and UI flows repeat exactly.
+ *
+ * A fixture file gives ground-truth objects per image file name, normalized 0-1:
+ *
+ *   { "images": {
+ *       "street.jpg": { "objects": [
+ *         { "label": "car", "box": [xmin, ymin, xmax, ymax],
+ *           "polygon"?: [[x, y], ...], "confidence"?: 0.9 } ] } } }
+ *
+ * A concept with fixture objects on the image returns exactly those, with a
+ * seeded confidence (unless given) and box jitter; anything else falls back to
+ * seeded random boxes. Latency, failures and partial results are simulated
+ * from the same seed plus a per-request attempt count, so a retry can succeed.
+ */
+
+export interface MockSettings {
+  seed: string; // Mixed into every request's seed
+  latencyMs: number;
+  failureRate: number; // 0 to 1, chance a text request fails
+  partialRate: number; // 0 to 1, chance a text request returns only some instances
+  jitter: number; // Fixture box noise as a fraction of the box size
+}
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = { seed: 'sam3', latencyMs: 800, failureRate: 0, partialRate: 0, jitter: 0.03 };
+
+export interface FixtureObject {
+  label: string;
+  box: [number, number, number, number];
+  polygon?: [number, number][];
+  confidence?: number;
+}
+
+export interface MockFixture {
+  name: string;
+  images: Record<string, { objects: FixtureObject[] }>;
+}
+
+export const MOCK_SETTINGS_KEY = 'sam3-labeller.mockSettings';
+export const MOCK_FIXTURE_KEY = 'sam3-labeller.mockFixture';
+
+const readStored = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getMockSettings = (): MockSettings => ({ ...DEFAULT_MOCK_SETTINGS, ...readStored<Partial<MockSettings>>(MOCK_SETTINGS_KEY) });
+
+export const setMockSettings = (settings: MockSettings) => {
+  localStorage.setItem(MOCK_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getMockFixture = (): MockFixture | null => readStored<MockFixture>(MOCK_FIXTURE_KEY);
+
+export const setMockFixture = (fixture: MockFixture | null) => {
+  if (fixture) localStorage.setItem(MOCK_FIXTURE_KEY, JSON.stringify(fixture));
+  else localStorage.removeItem(MOCK_FIXTURE_KEY);
+};
+
+const isUnitNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1;
+
+export const parseMockFixture = (json: string, name: string): MockFixture => {
+  const data = JSON.parse(json);
+  if (!data || typeof data.images !== 'object' || Array.isArray(data.images)) {
+    throw new Error('Fixture must have an "images" object keyed by file name');
+  }
+  Object.entries(data.images as Record<string, any>).forEach(([fileName, image]) => {
+    if (!Array.isArray(image?.objects)) throw new Error(`Fixture image "${fileName}" has no "objects" list`);
+    image.objects.forEach((obj: any, index: number) => {
+      const where = `"${fileName}" object ${index}`;
+      if (typeof obj.label !== 'string' || !obj.label.trim()) throw new Error(`Fixture ${where} has no label`);
+      if (!Array.isArray(obj.box) || obj.box.length !== 4 || !obj.box.every(isUnitNumber) || obj.box[0] >= obj.box[2] || obj.box[1] >= obj.box[3]) {
+        throw new Error(`Fixture ${where} needs a box [xmin, ymin, xmax, ymax] within 0-1`);
+      }
+    });
+  });
+  return { name, images: data.images };
+};
+
+// Per-key request counter so failures are reproducible yet a retry can succeed.
+// Only recent keys are kept; a forgotten key starts over at its first attempt.
+const MAX_ATTEMPT_KEYS = 200;
+const attempts = new Map<string, number>();
+
+const nextAttempt = (key: string) => {
+  const attempt = (attempts.get(key) || 0) + 1;
+  attempts.delete(key);
+  attempts.set(key, attempt);
+  if (attempts.size > MAX_ATTEMPT_KEYS) attempts.delete(attempts.keys().next().value!);
+  return attempt;
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DetectionError('cancelled', 'Detection cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const FAILURES: { kind: DetectionErrorKind; message: string }[] = [
+  { kind: 'rate-limit', message: 'Simulated rate limit (mock backend)' },
+  { kind: 'network', message: 'Simulated network failure (mock backend)' },
+  { kind: 'invalid-response', message: 'Simulated malformed response (mock backend)' }
+];
+
+// Fixture objects of one concept, clipped to the part of the image that was sent
+// and renormalized to it; objects mostly outside that part are left out
+const fixtureDetections = (
+  objects: FixtureObject[],
+  concept: string,
+  region: BoundingBox,
+  random: () => number,
+  jitter: number
+): Annotation[] => {
+  const rw = region.xmax - region.xmin;
+  const rh = region.ymax - region.ymin;
+  const toRegion = (p: Point): Point => ({ x: (p.x - region.xmin) / rw, y: (p.y - region.ymin) / rh });
+
+  return objects
+    .filter(obj => toConceptId(obj.label) === toConceptId(concept))
+    .flatMap((obj, index) => {
+      const [xmin, ymin, xmax, ymax] = obj.box;
+      const w = xmax - xmin;
+      const h = ymax - ymin;
+      const noise = (size: number) => (random() - 0.5) * 2 * jitter * size;
+      const box = { xmin: xmin + noise(w), ymin: ymin + noise(h), xmax: xmax + noise(w), ymax: ymax + noise(h) };
+      const confidence = obj.confidence ?? 0.6 + random() * 0.39;
+
+      const clipped = {
+        xmin: Math.max(box.xmin, region.xmin),
+        ymin: Math.max(box.ymin, region.ymin),
+        xmax: Math.min(box.xmax, region.xmax),
+        ymax: Math.min(box.ymax, region.ymax)
+      };
+      if (boxArea(clipped) < boxArea(box) * 0.25) return [];
+
+      const topLeft = toRegion({ x: clipped.xmin, y: clipped.ymin });
+      const bottomRight = toRegion({ x: clipped.xmax, y: clipped.ymax });
+      const outline = obj.polygon && obj.polygon.length >= 3
+        ? clipPolygonToBox(obj.polygon.map(([x, y]) => ({ x, y })), region).map(toRegion)
+        : [];
+      const points = outline.length >= 3 ? outline : undefined;
+
+      return [{
+        id: `mock-${Date.now()}-${toConceptId(concept)}-${index}`,
+        conceptId: concept,
+        box: points ? boxFromPoints(points) : { xmin: topLeft.x, ymin: topLeft.y, xmax: bottomRight.x, ymax: bottomRight.y },
+        type: points ? 'polygon' as const : 'box' as const,
+        points,
+        confidence,
+        isVerified: false,
+        isMasklet: true,
+        frameStart: 0,
+        frameEnd: 100
+      }];
+    });
+};
+
+export const createMockBackend = (): DetectionBackend => ({
+  id: ModelType.SAM3,
+  name: 'H100 Cluster (Inference)',
+  capabilities: { textPrompts: true, pointPrompts: true, boxPrompts: true, masks: true, spatialReasoning: true },
+  // Every setting and the fixture change what is returned
+  cacheTag: () => hashString(JSON.stringify([getMockSettings(), getMockFixture()])).toString(16),
+
+  detectByText: async ({ image, prompts, signal, onWarning }) => {
+    const settings = getMockSettings();
+    const fixture = getMockFixture();
+    const region = image.region || { xmin: 0, ymin: 0, xmax: 1, ymax: 1 };
+    // Images that cannot be read (e.g. served without CORS) are told apart by name instead
+    const content = await image.getBase64().catch(() => `${image.fileName}|${JSON.stringify(image.region)}`);
+    const imageHash = hashString(content);
+    const key = `${settings.seed}|${imageHash}|${prompts.join(',')}`;
+    const attempt = nextAttempt(key);
+    const random = seededRandom(hashString(`${key}|${attempt}`));
+
+    await delay(settings.latencyMs * (0.75 + random() * 0.5), signal);
+
+    if (random() < settings.failureRate) {
+      const failure = FAILURES[Math.floor(random() * FAILURES.length)];
+      throw new DetectionError(failure.kind, failure.message);
+    }
+
+    const objects = fixture?.images[image.fileName]?.objects;
+    const results = prompts.flatMap(prompt => {
+      // Geometry depends on the concept and image only, never on the attempt
+      const conceptRandom = seededRandom(hashString(`${settings.seed}|${imageHash}|${toConceptId(prompt)}`));
+      return objects
+        ? fixtureDetections(objects, prompt, region, conceptRandom, settings.jitter)
+        : mockSAM3Detect(prompt, conceptRandom);
+    });
+
+    if (results.length > 1 && random() < settings.partialRate) {
+      const kept = results.filter(() => random() < 0.5);
+      onWarning?.(`Partial result: ${kept.length} of ${results.length} instances returned (simulated)`);
+      return kept;
+    }
+    return results;
+  },
+
+  detectByPrompts: async ({ points, boxes, conceptId, signal }) => {
+    await delay(150, signal);
+    return mockSAM3Refine(conceptId, points, boxes?.[0]);
+  },
+
+  checkHealth: async () => {
+    const fixture = getMockFixture();
+    return {
+      ok: true,
+      latencyMs: getMockSettings().latencyMs,
+      message: fixture ? `Mock backend, fixture "${fixture.name}" (${Object.keys(fixture.images).length} images)` : 'Mock backend'
+    };
+  }
+});
@@ -0,0 +1,97 @@
+import { Annotation, Concept, DatasetImage } from "../types";
+import { getFps, getFrameCount, isVideo, resolveAtFrame } from "../utils/keyframes";
+import { maskArea } from "../utils/mask";
+
+// MOTChallenge ground truth (https://motchallenge.net/instructions/). One
+// sequence per video; still images form a single sequence in dataset order.
+// Rows are `frame,id,bb_left,bb_top,bb_width,bb_height,conf,class,visibility`
+// with 1-based frames and pixel boxes.
+
+export interface MOTSequence {
+  name: string;
+  gt: string; // gt/gt.txt
+  seqinfo: string; // seqinfo.ini
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// MOT ids are unique per sequence across classes, while track ids count per concept
+const sequenceIds = (annotations: Annotation[]) => {
+  const ids = new Map<string, number>();
+  annotations.forEach(a => {
+    const key = `${a.conceptId}#${a.trackId ?? a.id}`;
+    if (!ids.has(key)) ids.set(key, ids.size + 1);
+  });
+  return (a: Annotation) => ids.get(`${a.conceptId}#${a.trackId ?? a.id}`)!;
+};
+
+const toRow = (frame: number, id: number, ann: Annotation, classId: number, width: number, height: number) => [
+  frame,
+  id,
+  round(ann.box.xmin * width),
+  round(ann.box.ymin * height),
+  round((ann.box.xmax - ann.box.xmin) * width),
+  round((ann.box.ymax - ann.box.ymin) * height),
+  // Verified objects are ground truth; the rest carry their model confidence
+  ann.isVerified ? 1 : round(ann.confidence),
+  classId,
+  1
+].join(',');
+
+const sortRows = (rows: { frame: number; id: number; line: string }[]) =>
+  rows.sort((a, b) => a.frame - b.frame || a.id - b.id).map(r => r.line).join('\n') + (rows.length ? '\n' : '');
+
+const seqinfo = (name: string, frameRate: number, length: number, width: number, height: number, imExt: string) => `[Sequence]
+name=${name}
+imDir=img1
+frameRate=${frameRate}
+seqLength=${length}
+imWidth=${width}
+imHeight=${height}
+imExt=${imExt}
+`;
+
+export const exportMOTClasses = (concepts: Concept[]): string =>
+  concepts.map((c, index) => `${index + 1} ${c.name}`).join('\n') + '\n';
+
+export const exportToMOT = (annotations: Annotation[], concepts: Concept[], images: DatasetImage[]): MOTSequence[] => {
+  const classIds = new Map(concepts.map((c, index) => [c.id, index + 1]));
+  const labelled = annotations.filter(a => classIds.has(a.conceptId));
+  const sequences: MOTSequence[] = [];
+
+  images.filter(isVideo).forEach(video => {
+    const tracks = labelled.filter(a => a.imageId === video.id);
+    const idOf = sequenceIds(tracks);
+    const frameCount = getFrameCount(video);
+    const rows: { frame: number; id: number; line: string }[] = [];
+
+    tracks.forEach(track => {
+      const last = Math.min(track.frameEnd ?? frameCount - 1, frameCount - 1);
+      for (let frame = track.frameStart ?? 0; frame <= last; frame++) {
+        const resolved = resolveAtFrame(track, frame);
+        // An erased (empty) mask keyframe means the object is not visible there
+        if (!resolved || (resolved.mask && maskArea(resolved.mask) === 0)) continue;
+        rows.push({ frame, id: idOf(track), line: toRow(frame + 1, idOf(track), resolved, classIds.get(track.conceptId)!, video.width, video.height) });
+      }
+    });
+
+    const name = video.fileName.replace(/\.[^.]+$/, '');
+    sequences.push({ name, gt: sortRows(rows), seqinfo: seqinfo(name, getFps(video), frameCount, video.width, video.height, '.jpg') });
+  });
+
+  const stills = images.filter(img => !isVideo(img));
+  if (stills.length > 0) {
+    const frames = new Map(stills.map((img, index) => [img.id, index + 1]));
+    const sized = new Map(stills.map(img => [img.id, img]));
+    const inStills = labelled.filter(a => a.imageId && frames.has(a.imageId));
+    const idOf = sequenceIds(inStills);
+    const rows = inStills.map(a => {
+      const { width, height } = sized.get(a.imageId!)!;
+      const frame = frames.get(a.imageId!)!;
+      return { frame, id: idOf(a), line: toRow(frame, idOf(a), a, classIds.get(a.conceptId)!, width, height) };
+    });
+    sequences.push({ name: 'images', gt: sortRows(rows), seqinfo: seqinfo('images', 1, stills.length, stills[0].width, stills[0].height, '.jpg') });
+  }
+
+  return sequences;
+};
@@ -0,0 +1,100 @@
+import { Annotation, BoundingBox } from "../types";
+import { fitWithin, FULL_REGION, mergeTiledDetections, planTiles, PixelRect, rectToRegion, regionToImage } from "../utils/tiling";
+import type { DetectionBackend, DetectionImage, TextDetectionRequest } from "./detectionBackend";
+
+// Text detection runs on a downscaled copy of the image and, for large images
+// with tiling on, also on overlapping full-resolution tiles so small objects
+// (e.g. in aerial imagery) stay big enough for the model to find. Results are
+// mapped back to full-image coordinates and merged.
+
+export interface PreprocessSettings {
+  maxEdge: number; // Longest edge, in pixels, of any image sent to the backend
+  tiling: boolean;
+  tileSize: number; // Tile edge in source pixels, before the max edge applies
+  tileOverlap: number; // Fraction of a tile shared with its neighbour
+}
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = { maxEdge: 1536, tiling: false, tileSize: 1024, tileOverlap: 0.2 };
+
+export interface DetectionRegion {
+  image: DetectionImage;
+  region: BoundingBox; // Part of the full image the detection image shows, normalized
+}
+
+type PixelSource = HTMLCanvasElement | HTMLImageElement;
+
+const JPEG_QUALITY = 0.92;
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load image ${src}`));
+    img.src = src;
+  });
+
+// Whether the full image would be sent unchanged; then the original bytes are used as-is
+export const needsPreprocessing = (width: number, height: number, settings: PreprocessSettings) =>
+  Math.max(width, height) > settings.maxEdge || (settings.tiling && Math.max(width, height) > settings.tileSize);
+
+// Identifies what is sent for an image of this size, so cached results are only
+// reused for the same downscaling and tiling
+export const preprocessKey = (width: number, height: number, settings: PreprocessSettings) => {
+  if (!width || !height || !needsPreprocessing(width, height, settings)) return 'original';
+  return settings.tiling ? `${settings.maxEdge}-t${settings.tileSize}-${settings.tileOverlap}` : `${settings.maxEdge}`;
+};
+
+// Crops and scales lazily, so a backend that never reads pixels costs nothing
+const regionImage = (source: PixelSource, rect: PixelRect, region: BoundingBox, fileName: string, maxEdge: number): DetectionImage => {
+  const size = fitWithin(rect.width, rect.height, maxEdge);
+  return {
+    fileName,
+    region,
+    width: size.width,
+    height: size.height,
+    mimeType: 'image/jpeg',
+    getBase64: async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const context = canvas.getContext('2d')!;
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, size.width, size.height);
+      return canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
+    }
+  };
+};
+
+// The downscaled whole image comes first; it also catches objects larger than a tile
+export const planDetectionRegions = (source: PixelSource, width: number, height: number, fileName: string, settings: PreprocessSettings): DetectionRegion[] => {
+  const whole: PixelRect = { x: 0, y: 0, width, height };
+  const tiles = settings.tiling ? planTiles(width, height, settings.tileSize, settings.tileOverlap) : [];
+  return [whole, ...(tiles.length > 1 ? tiles : [])].map(rect => {
+    const region = rect === whole ? FULL_REGION : rectToRegion(rect, width, height);
+    return { image: regionImage(source, rect, region, fileName, settings.maxEdge), region };
+  });
+};
+
+// Regions run one after another so a cancel stops the remaining requests
+export const detectInRegions = async (
+  backend: DetectionBackend,
+  regions: DetectionRegion[],
+  request: Omit<TextDetectionRequest, 'image'>,
+  width: number,
+  height: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<Annotation[]> => {
+  const results: Annotation[] = [];
+  for (let i = 0; i < regions.length; i++) {
+    const { image, region } = regions[i];
+    const detected = await backend.detectByText({ ...request, image });
+    // Backends number ids per request, so tiles would collide
+    results.push(...detected.map(a => ({
+      ...regionToImage(a, region, width, height),
+      id: regions.length > 1 ? `${a.id}-r${i}` : a.id
+    })));
+    onProgress?.(i + 1, regions.length);
+  }
+  return regions.length > 1 ? mergeTiledDetections(results) : results;
+};
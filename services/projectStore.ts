@@ -0,0 +1,194 @@
+import { Annotation, Concept, ImageMeta } from "../types";
+
+// Bump when the persisted shape changes and add a migration below
+export const PROJECT_SCHEMA_VERSION = 2;
+
+const DB_NAME = 'sam3-labeller';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const BLOB_STORE = 'imageBlobs'; // Keyed by `${projectId}:${imageId}`, written once per image
+
+export interface StoredImage extends ImageMeta {
+  id: string;
+  blob?: Blob; // Only present on records migrated from schema v1, moved to BLOB_STORE on load
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  schemaVersion: number;
+  createdAt: number;
+  updatedAt: number;
+  images: StoredImage[];
+  activeImageId: string | null;
+  concepts: Concept[];
+  annotations: Annotation[]; // Verification state lives on Annotation.isVerified
+  activeConceptId: string | null;
+}
+
+export interface LoadedProject extends StoredProject {
+  blobs: Map<string, Blob>; // By image id
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  imageCount: number;
+  conceptCount: number;
+  annotationCount: number;
+  verifiedCount: number;
+}
+
+// Each migration upgrades a record from version N to N + 1
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  // 0 -> 1: records written before versioning carried no schemaVersion
+  0: (project) => ({ ...project, activeConceptId: project.activeConceptId ?? null }),
+  // 1 -> 2: single image projects become one-image datasets
+  1: ({ image, ...project }) => {
+    const imageId = 'image-1';
+    return {
+      ...project,
+      images: [{ id: imageId, fileName: image.fileName, width: image.width, height: image.height, blob: image.blob }],
+      activeImageId: imageId,
+      annotations: project.annotations.map((a: Annotation) => ({ ...a, imageId }))
+    };
+  }
+};
+
+const migrate = (record: any): StoredProject => {
+  let project = record;
+  let version: number = project.schemaVersion ?? 0;
+
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project "${project.name}" was saved by a newer version (schema v${version})`);
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from project schema v${version}`);
+    project = step(project);
+    version += 1;
+  }
+
+  return { ...project, schemaVersion: PROJECT_SCHEMA_VERSION };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        const store = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        db.createObjectStore(BLOB_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+
+const blobKey = (projectId: string, imageId: string) => `${projectId}:${imageId}`;
+const projectBlobRange = (projectId: string) => IDBKeyRange.bound(`${projectId}:`, `${projectId}:\uffff`);
+
+const summarize = (project: StoredProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  updatedAt: project.updatedAt,
+  imageCount: project.images.length,
+  conceptCount: project.concepts.length,
+  annotationCount: project.annotations.length,
+  verifiedCount: project.annotations.filter(a => a.isVerified).length
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runRequest<any[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(record => {
+      try {
+        return summarize(migrate(record));
+      } catch (error) {
+        console.warn("Skipping unreadable project", record?.id, error);
+        return null;
+      }
+    })
+    .filter((summary): summary is ProjectSummary => summary !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveImageBlob = async (projectId: string, imageId: string, blob: Blob): Promise<void> => {
+  await runRequest(BLOB_STORE, 'readwrite', store => store.put(blob, blobKey(projectId, imageId)));
+};
+
+export const loadProject = async (id: string): Promise<LoadedProject | null> => {
+  const record = await runRequest<any>(PROJECT_STORE, 'readonly', store => store.get(id));
+  if (!record) return null;
+
+  const project = migrate(record);
+  const blobs = new Map<string, Blob>();
+
+  // Move blobs carried inline by migrated records into the blob store
+  const inline = project.images.filter(img => img.blob);
+  for (const img of inline) {
+    await saveImageBlob(project.id, img.id, img.blob!);
+  }
+  if (inline.length > 0 || record.schemaVersion !== PROJECT_SCHEMA_VERSION) {
+    project.images = project.images.map(({ blob, ...meta }) => meta);
+    await runRequest(PROJECT_STORE, 'readwrite', store => store.put(project));
+  }
+
+  for (const img of project.images) {
+    const blob = await runRequest<Blob | undefined>(BLOB_STORE, 'readonly', store => store.get(blobKey(project.id, img.id)));
+    if (blob) blobs.set(img.id, blob);
+  }
+
+  return { ...project, blobs };
+};
+
+// Image blobs are stored separately via saveImageBlob; only metadata is written here
+export const saveProject = async (project: Omit<StoredProject, 'schemaVersion' | 'updatedAt'>): Promise<StoredProject> => {
+  const record: StoredProject = {
+    ...project,
+    images: project.images.map(({ blob, ...meta }) => meta),
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    updatedAt: Date.now()
+  };
+  await runRequest(PROJECT_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest(PROJECT_STORE, 'readwrite', store => store.delete(id));
+  await runRequest(BLOB_STORE, 'readwrite', store => store.delete(projectBlobRange(id)));
+};
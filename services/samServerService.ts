@@ -0,0 +1,162 @@
+import { Annotation, BoundingBox, ModelType, Point, RLEMask } from "../types";
+import { maskToBox } from "../utils/mask";
+import type { DetectionBackend, HealthStatus } from "./detectionBackend";
+import { DetectionError } from "./detectionError";
+
+/*
+ * HTTP adapter for a self-hosted SAM server. All coordinates are normalized 0-1.
+ *
+ *   GET  /health
+ *     -> { "status": "ok", "model"?: string }
+ *
+ *   POST /segment/text
+ *     { "image": <base64>, "mime_type": "image/jpeg", "prompt": "car" }
+ *
+ *   POST /segment/prompts
+ *     { "image": <base64>, "mime_type": "image/jpeg",
+ *       "points": [{ "x": 0.4, "y": 0.5, "label": 1 }],   // 1 positive, 0 negative
+ *       "boxes": [[xmin, ymin, xmax, ymax]] }
+ *
+ *   Both segment endpoints respond with
+ *     { "instances": [{ "box": [xmin, ymin, xmax, ymax], "score": 0.93,
+ *                       "polygon"?: [[x, y], ...], "label"?: string,
+ *                       "mask"?: { "size": [height, width], "counts": [...] } }] }
+ *
+ *   `mask` is COCO uncompressed RLE at the image's pixel size and takes
+ *   precedence over `polygon` when both are present.
+ *
+ * scripts/sam-stub-server.mjs implements this contract for local testing.
+ */
+
+// A server that accepts the connection but never answers should not hang the status check
+const HEALTH_TIMEOUT_MS = 3000;
+
+interface SamInstance {
+  box: [number, number, number, number];
+  score?: number;
+  polygon?: [number, number][];
+  label?: string;
+  mask?: RLEMask;
+}
+
+interface SamResponse {
+  instances: SamInstance[];
+}
+
+const isBox = (value: unknown): value is SamInstance['box'] =>
+  Array.isArray(value) && value.length === 4 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+const parseResponse = (data: unknown): SamResponse => {
+  const instances = (data as SamResponse)?.instances;
+  if (!Array.isArray(instances)) {
+    throw new DetectionError('invalid-response', "SAM server returned an unexpected response (missing instances)");
+  }
+  if (!instances.every(inst => isBox(inst?.box))) {
+    throw new DetectionError('invalid-response', "SAM server returned an instance without a valid box");
+  }
+  return { instances };
+};
+
+const toAnnotations = (data: unknown, conceptId: string): Annotation[] => {
+  const response = parseResponse(data);
+  return response.instances.map((inst, index) => {
+    const [xmin, ymin, xmax, ymax] = inst.box;
+    const mask = inst.mask && Array.isArray(inst.mask.counts) ? inst.mask : undefined;
+    const box: BoundingBox = (mask && maskToBox(mask)) || { xmin, ymin, xmax, ymax };
+    const points: Point[] | undefined = !mask && inst.polygon && inst.polygon.length >= 3
+      ? inst.polygon.map(([x, y]) => ({ x, y }))
+      : undefined;
+
+    return {
+      id: `samsrv-${Date.now()}-${index}`,
+      conceptId,
+      box,
+      type: mask ? 'mask' : points ? 'polygon' : 'box',
+      points,
+      mask,
+      confidence: inst.score ?? 0.5,
+      isVerified: false,
+      isMasklet: true,
+      frameStart: 0,
+      frameEnd: 100
+    };
+  });
+};
+
+const statusError = (status: number, detail: string): DetectionError => {
+  if (status === 401 || status === 403) return new DetectionError('auth', `SAM server refused access (HTTP ${status})`);
+  if (status === 429) return new DetectionError('rate-limit', 'SAM server is rate limiting requests; try again later');
+  if (status === 408 || status >= 500) return new DetectionError('network', `SAM server is unavailable (HTTP ${status})`);
+  return new DetectionError('request', `SAM server rejected the request (HTTP ${status}): ${detail}`);
+};
+
+const postJson = async (url: string, body: unknown, signal?: AbortSignal): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted || (error as Error)?.name === 'AbortError') throw new DetectionError('cancelled', 'Detection cancelled');
+    // fetch() rejects with a TypeError when the server cannot be reached
+    throw new DetectionError('network', `Could not reach the SAM server: ${(error as Error).message}`);
+  }
+  if (!response.ok) {
+    throw statusError(response.status, await response.text().catch(() => ''));
+  }
+  try {
+    return await response.json();
+  } catch (error) {
+    if (signal?.aborted || (error as Error)?.name === 'AbortError') throw new DetectionError('cancelled', 'Detection cancelled');
+    throw new DetectionError('invalid-response', 'SAM server returned malformed JSON');
+  }
+};
+
+export const createSamServerBackend = (getBaseUrl: () => string): DetectionBackend => ({
+  id: ModelType.SAM_SERVER,
+  name: 'Self-hosted SAM (HTTP)',
+  capabilities: { textPrompts: true, pointPrompts: true, boxPrompts: true, masks: true, spatialReasoning: false },
+  cacheTag: getBaseUrl,
+
+  // The text endpoint takes one prompt, so a batch is sent as sequential requests
+  detectByText: async ({ image, prompts, signal }) => {
+    const base64 = await image.getBase64();
+    const results: Annotation[] = [];
+    for (const prompt of prompts) {
+      const data = await postJson(`${getBaseUrl()}/segment/text`, {
+        image: base64,
+        mime_type: image.mimeType,
+        prompt
+      }, signal);
+      results.push(...toAnnotations(data, prompt));
+    }
+    return results;
+  },
+
+  detectByPrompts: async ({ image, points, boxes, conceptId, signal }) => {
+    const data = await postJson(`${getBaseUrl()}/segment/prompts`, {
+      image: await image.getBase64(),
+      mime_type: image.mimeType,
+      points,
+      boxes: (boxes || []).map(b => [b.xmin, b.ymin, b.xmax, b.ymax])
+    }, signal);
+    return toAnnotations(data, conceptId);
+  },
+
+  checkHealth: async (): Promise<HealthStatus> => {
+    const started = performance.now();
+    try {
+      const response = await fetch(`${getBaseUrl()}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+      const latencyMs = Math.round(performance.now() - started);
+      if (!response.ok) return { ok: false, latencyMs, message: `HTTP ${response.status}` };
+      const data = await response.json().catch(() => ({}));
+      return { ok: data.status === 'ok', latencyMs, message: data.model || data.status };
+    } catch (error) {
+      if ((error as Error)?.name === 'TimeoutError') return { ok: false, message: `No response within ${HEALTH_TIMEOUT_MS / 1000}s` };
+      return { ok: false, message: `Unreachable: ${(error as Error).message}` };
+    }
+  }
+});
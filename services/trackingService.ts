@@ -0,0 +1,138 @@
+import { BoundingBox, Keyframe } from "../types";
+import { boxIoU } from "../utils/geometry";
+import { frameToTime } from "../utils/keyframes";
+import { blendTemplate, GrayFrame, matchTemplate, sampleTemplate, toGrayFrame, translateBox } from "../utils/tracking";
+import { mockSAM3Track } from "./geminiService";
+
+export type TrackerId = 'mock-motion' | 'template';
+
+export interface PropagationRequest {
+  src: string; // Video URL; trackers decode their own copy so the player does not seek
+  fps: number;
+  seed: string; // Stable per track, so mock results repeat
+  startFrame: number;
+  box: BoundingBox; // Geometry on the start frame
+  frames: number[]; // Frames to visit, in order, moving away from the start frame
+  signal: AbortSignal;
+  onProgress: (done: number, total: number) => void;
+}
+
+export interface Tracker {
+  id: TrackerId;
+  name: string;
+  offline: boolean; // Runs in the browser without a backend
+  // Boxes with per-frame confidence; stops early when the object is lost
+  track: (request: PropagationRequest) => Promise<Keyframe[]>;
+}
+
+// Downscaled frames keep matching fast; boxes are normalized so precision is kept relative to the box
+const TRACKING_WIDTH = 320;
+
+// Below this the object is considered lost and propagation stops
+const LOST_CONFIDENCE = 0.3;
+
+// Template updates only on confident matches, so occluders are not learned
+const TEMPLATE_UPDATE_SCORE = 0.8;
+
+const abortError = () => new DOMException('Propagation cancelled', 'AbortError');
+
+const waitFor = (target: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error('Could not decode video for tracking'));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+// Reads individual frames from a hidden video element
+const openFrameReader = async (src: string, fps: number) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = src;
+  await waitFor(video, 'loadeddata');
+
+  const scale = Math.min(1, TRACKING_WIDTH / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  return {
+    read: async (frame: number): Promise<GrayFrame> => {
+      const seeked = waitFor(video, 'seeked');
+      video.currentTime = frameToTime(frame, fps);
+      await seeked;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return toGrayFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+    },
+    close: () => {
+      video.removeAttribute('src');
+      video.load();
+    }
+  };
+};
+
+const mockMotionTracker: Tracker = {
+  id: 'mock-motion',
+  name: 'SAM 3 Propagation (Mock)',
+  offline: true,
+  track: async ({ seed, box, startFrame, frames, signal, onProgress }) => {
+    const tracked = mockSAM3Track(seed, box, startFrame, frames);
+    // Mock delay, reported in chunks like a streaming backend
+    for (let done = 0; done < tracked.length; done += 30) {
+      if (signal.aborted) throw abortError();
+      onProgress(done, frames.length);
+      await new Promise(r => setTimeout(r, 40));
+    }
+    onProgress(frames.length, frames.length);
+    return tracked;
+  }
+};
+
+// Follows the object's appearance frame to frame. Confidence combines the
+// template match with how well the match agrees (IoU) with a constant-velocity
+// prediction, so sudden jumps onto look-alikes score low.
+const templateTracker: Tracker = {
+  id: 'template',
+  name: 'Template Tracker (Local)',
+  offline: true,
+  track: async ({ src, fps, startFrame, box, frames, signal, onProgress }) => {
+    const reader = await openFrameReader(src, fps);
+    const tracked: Keyframe[] = [];
+    try {
+      let template = sampleTemplate(await reader.read(startFrame), box);
+      let current = box;
+      let velocity = { x: 0, y: 0 };
+
+      for (let i = 0; i < frames.length; i++) {
+        if (signal.aborted) throw abortError();
+        const frame = await reader.read(frames[i]);
+        const predicted = translateBox(current, velocity.x, velocity.y);
+        const match = matchTemplate(frame, template, predicted);
+        const confidence = match.score * (0.5 + 0.5 * boxIoU(predicted, match.box));
+        if (confidence < LOST_CONFIDENCE) break;
+
+        velocity = { x: match.box.xmin - current.xmin, y: match.box.ymin - current.ymin };
+        current = match.box;
+        if (match.score > TEMPLATE_UPDATE_SCORE) template = blendTemplate(template, frame, current);
+        tracked.push({ frame: frames[i], box: current, confidence });
+        onProgress(i + 1, frames.length);
+      }
+    } finally {
+      reader.close();
+    }
+    return tracked;
+  }
+};
+
+export const TRACKERS: Tracker[] = [mockMotionTracker, templateTracker];
+
+export const getTracker = (id: TrackerId): Tracker =>
+  TRACKERS.find(t => t.id === id) || mockMotionTracker;
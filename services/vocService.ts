@@ -0,0 +1,52 @@
+import { Annotation, Concept, ImageMeta } from "../types";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Pascal VOC uses 1-based integer pixel coordinates
+const toPixel = (value: number, size: number) => Math.min(size, Math.max(1, Math.round(value * size) + 1));
+
+export const exportToPascalVOC = (
+  annotations: Annotation[],
+  concepts: Concept[],
+  image: ImageMeta
+): string => {
+  const { width, height } = image;
+  const conceptNames = new Map(concepts.map(c => [c.id, c.name]));
+
+  const objects = annotations
+    .filter(ann => conceptNames.has(ann.conceptId))
+    .map(ann => `  <object>
+    <name>${escapeXml(conceptNames.get(ann.conceptId)!)}</name>
+    <pose>${escapeXml(ann.orientation || 'Unspecified')}</pose>
+    <truncated>${ann.box.xmin <= 0 || ann.box.ymin <= 0 || ann.box.xmax >= 1 || ann.box.ymax >= 1 ? 1 : 0}</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${toPixel(ann.box.xmin, width)}</xmin>
+      <ymin>${toPixel(ann.box.ymin, height)}</ymin>
+      <xmax>${toPixel(ann.box.xmax, width)}</xmax>
+      <ymax>${toPixel(ann.box.ymax, height)}</ymax>
+    </bndbox>
+  </object>`);
+
+  return `<annotation>
+  <folder>images</folder>
+  <filename>${escapeXml(image.fileName)}</filename>
+  <source>
+    <database>SAM 3 Labeller</database>
+  </source>
+  <size>
+    <width>${width}</width>
+    <height>${height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>${annotations.some(a => a.type === 'polygon' || a.type === 'mask') ? 1 : 0}</segmented>
+${objects.join('\n')}
+</annotation>
+`;
+};
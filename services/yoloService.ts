@@ -0,0 +1,56 @@
+import { Annotation, Concept, Point } from "../types";
+import { maskToPolygon } from "../utils/mask";
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const fmt = (value: number) => clamp01(value).toFixed(6);
+
+// Class indices follow ledger order, matching the generated classes.txt
+const classIndices = (concepts: Concept[]) => new Map(concepts.map((c, index) => [c.id, index]));
+
+export const exportYOLOClasses = (concepts: Concept[]): string =>
+  concepts.map(c => c.name).join('\n') + '\n';
+
+// One "<class> <cx> <cy> <w> <h>" line per annotation, all normalized to 0-1
+export const exportYOLODetection = (annotations: Annotation[], concepts: Concept[]): string => {
+  const indices = classIndices(concepts);
+
+  return annotations
+    .filter(ann => indices.has(ann.conceptId))
+    .map(ann => {
+      const xmin = clamp01(ann.box.xmin);
+      const ymin = clamp01(ann.box.ymin);
+      const xmax = clamp01(ann.box.xmax);
+      const ymax = clamp01(ann.box.ymax);
+      return [
+        indices.get(ann.conceptId),
+        fmt((xmin + xmax) / 2),
+        fmt((ymin + ymax) / 2),
+        fmt(xmax - xmin),
+        fmt(ymax - ymin)
+      ].join(' ');
+    })
+    .join('\n');
+};
+
+// One "<class> <x1> <y1> <x2> <y2> ..." polygon line per annotation. Boxes are
+// written as their four corners and masks as the outline of their largest
+// region; point annotations have no area and are skipped.
+export const exportYOLOSegmentation = (annotations: Annotation[], concepts: Concept[]): string => {
+  const indices = classIndices(concepts);
+
+  return annotations
+    .filter(ann => indices.has(ann.conceptId) && ann.type !== 'point')
+    .map(ann => {
+      const outline: Point[] | undefined = ann.type === 'mask' && ann.mask ? maskToPolygon(ann.mask) : ann.points;
+      const points = (ann.type === 'polygon' || ann.type === 'mask') && outline && outline.length >= 3
+        ? outline
+        : [
+            { x: ann.box.xmin, y: ann.box.ymin },
+            { x: ann.box.xmax, y: ann.box.ymin },
+            { x: ann.box.xmax, y: ann.box.ymax },
+            { x: ann.box.xmin, y: ann.box.ymax }
+          ];
+      return [indices.get(ann.conceptId), ...points.flatMap(p => [fmt(p.x), fmt(p.y)])].join(' ');
+    })
+    .join('\n');
+};
@@ -1,11 +1,17 @@
 
 export enum ModelType {
   SAM3 = 'Meta SAM 3 (Mock)',
-  GEMINI = 'Gemini 3 Pro (Spatial)'
+  GEMINI = 'Gemini 3 Pro (Spatial)',
+  SAM_SERVER = 'SAM 3 Server (HTTP)'
 }
 
-export type ToolType = 'select' | 'box' | 'polygon' | 'point';
+export type ToolType = 'select' | 'box' | 'polygon' | 'point' | 'brush' | 'eraser';
 
+// Geometry an annotation carries; 'mask' means `mask` is the source of truth and `box` is derived from it
+export type ShapeType = 'box' | 'polygon' | 'point' | 'mask';
+
+// Boxes and points are normalized 0-1 over the image's natural size, so exporters
+// scale them by its width and height
 export interface BoundingBox {
   ymin: number;
   xmin: number;
@@ -18,17 +24,44 @@ export interface Point {
   y: number;
 }
 
+// SAM-style click prompt: label 1 is a positive (foreground) point, 0 a negative one
+export interface PointPrompt extends Point {
+  label: 0 | 1;
+}
+
+// COCO-style uncompressed RLE over the image pixels in column-major order, runs start with background
+export interface RLEMask {
+  size: [number, number]; // [height, width] in pixels, as in COCO
+  counts: number[];
+}
+
+// Geometry of a video track at one frame
+export interface Keyframe {
+  frame: number;
+  box: BoundingBox;
+  points?: Point[];
+  mask?: RLEMask;
+  confidence?: number; // Per-frame tracker confidence, 0 to 1
+  propagated?: boolean; // Written by a tracker rather than set by hand
+}
+
 export interface Annotation {
   id: string;
   conceptId: string;
+  trackId?: number; // Instance number within the concept, stable across frames and images
   box: BoundingBox;
-  type?: ToolType; // Defaults to 'box' if undefined
+  type?: ShapeType; // Defaults to 'box' if undefined
   points?: Point[]; // For polygons and points
+  mask?: RLEMask; // Pixel mask at the image's natural resolution
   confidence: number; // 0 to 1
   isVerified: boolean;
   isMasklet: boolean; // Visualization style (solid vs outline)
-  frameStart?: number;
-  frameEnd?: number;
+  frameStart?: number; // First frame of the track (video) or 0-100 timeline position (image)
+  frameEnd?: number; // Last frame of the track, inclusive for video
+  keyframes?: Keyframe[]; // Video tracks only, sorted by frame; the top-level geometry mirrors the first
+  imageId?: string; // Owning DatasetImage; concepts are shared across the dataset
+  prompts?: PointPrompt[]; // Click prompts that produced the current geometry, oldest first
+  promptBox?: BoundingBox; // Box prompt sent alongside the clicks (the original proposal)
   
   // New Spatial Understanding Fields
   spatialContext?: string; // e.g., "Next to the red sedan"
@@ -50,3 +83,20 @@ export interface VideoState {
   duration: number;
   isPlaying: boolean;
 }
+
+export type MediaType = 'image' | 'video';
+
+export interface ImageMeta {
+  fileName: string;
+  width: number; // Natural pixel width
+  height: number; // Natural pixel height
+  mediaType?: MediaType; // Defaults to 'image'
+  duration?: number; // Video only, seconds
+  fps?: number; // Video only
+  frameCount?: number; // Video only, derived from duration and fps
+}
+
+export interface DatasetImage extends ImageMeta {
+  id: string;
+  src: string; // Object URL for local files, remote URL for the demo image
+}
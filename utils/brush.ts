@@ -0,0 +1,101 @@
+import { Point } from "../types";
+
+// Brush strokes operate on decoded row-major 0/1 bitmaps (see utils/mask.ts)
+// in image pixel coordinates.
+
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_BRUSH_RADIUS = 1;
+export const MAX_BRUSH_RADIUS = 200;
+
+// Bracket keys scale the radius so small and large brushes adjust at a similar pace
+export const stepBrushRadius = (radius: number, direction: 1 | -1): number => {
+  const next = direction > 0 ? Math.ceil(radius * 1.25) : Math.floor(radius / 1.25);
+  return Math.max(MIN_BRUSH_RADIUS, Math.min(MAX_BRUSH_RADIUS, next));
+};
+
+// Decides per pixel whether a stamp centred at (cx, cy) may touch it
+export type StampFilter = (index: number, cx: number, cy: number) => boolean;
+
+// Edge snapping: only pixels whose color is close to the image color under the
+// brush centre are painted, so strokes stop at strong color boundaries
+export const createEdgeSnapFilter = (pixels: Uint8ClampedArray, width: number, tolerance = 40): StampFilter => {
+  const limit = tolerance * tolerance;
+  return (index, cx, cy) => {
+    const seed = (Math.round(cy) * width + Math.round(cx)) * 4;
+    const p = index * 4;
+    const dr = pixels[p] - pixels[seed];
+    const dg = pixels[p + 1] - pixels[seed + 1];
+    const db = pixels[p + 2] - pixels[seed + 2];
+    return dr * dr + dg * dg + db * db <= limit;
+  };
+};
+
+export const stampCircle = (
+  bits: Uint8Array,
+  width: number,
+  height: number,
+  center: Point,
+  radius: number,
+  value: 0 | 1,
+  filter?: StampFilter
+): DirtyRect | null => {
+  const x0 = Math.max(0, Math.floor(center.x - radius));
+  const x1 = Math.min(width - 1, Math.ceil(center.x + radius));
+  const y0 = Math.max(0, Math.floor(center.y - radius));
+  const y1 = Math.min(height - 1, Math.ceil(center.y + radius));
+  if (x0 > x1 || y0 > y1) return null;
+
+  const r2 = radius * radius;
+  for (let y = y0; y <= y1; y++) {
+    const dy = y + 0.5 - center.y;
+    for (let x = x0; x <= x1; x++) {
+      const dx = x + 0.5 - center.x;
+      if (dx * dx + dy * dy > r2) continue;
+      const index = y * width + x;
+      if (filter && !filter(index, center.x, center.y)) continue;
+      bits[index] = value;
+    }
+  }
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+// Stamps along the segment so fast mouse movement leaves no gaps
+export const stampSegment = (
+  bits: Uint8Array,
+  width: number,
+  height: number,
+  from: Point,
+  to: Point,
+  radius: number,
+  value: 0 | 1,
+  filter?: StampFilter
+): DirtyRect | null => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / Math.max(1, radius / 3)));
+  let dirty: DirtyRect | null = null;
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    const rect = stampCircle(bits, width, height, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, value, filter);
+    if (!rect) continue;
+    if (!dirty) {
+      dirty = rect;
+    } else {
+      const x = Math.min(dirty.x, rect.x);
+      const y = Math.min(dirty.y, rect.y);
+      dirty = {
+        x,
+        y,
+        width: Math.max(dirty.x + dirty.width, rect.x + rect.width) - x,
+        height: Math.max(dirty.y + dirty.height, rect.y + rect.height) - y
+      };
+    }
+  }
+  return dirty;
+};
@@ -0,0 +1,10 @@
+export const COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b', '#3b82f6', '#8b5cf6', '#14b8a6'];
+
+// Concept ids are derived from their display name so re-adding a concept selects it
+export const toConceptId = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, '-');
+
+// "car, pedestrian\ntraffic light" -> ['car', 'pedestrian', 'traffic light'], first spelling of each id wins
+export const parseConceptList = (input: string): string[] => {
+  const names = input.split(/[,\n]/).map(name => name.trim()).filter(Boolean);
+  return names.filter((name, index) => names.findIndex(n => toConceptId(n) === toConceptId(name)) === index);
+};
@@ -0,0 +1,56 @@
+import { Annotation } from "../types";
+import { annotationIoU, nonMaxSuppression, weightedBoxFusion } from "./geometry";
+
+// Detections from a text prompt can repeat objects already labelled (running a
+// concept twice) or each other (overlapping model outputs). `dedupeDetections`
+// cleans them on the way in; `findDuplicatePairs` flags what is left for review.
+
+export type DedupeMode = 'off' | 'nms' | 'wbf';
+
+export interface DedupeSettings {
+  mode: DedupeMode;
+  iouThreshold: number; // Same-concept overlap at which two annotations count as one object
+}
+
+export const DEFAULT_DEDUPE: DedupeSettings = { mode: 'nms', iouThreshold: 0.7 };
+
+export const DEDUPE_MODES: { id: DedupeMode; name: string }[] = [
+  { id: 'off', name: 'Keep all' },
+  { id: 'nms', name: 'Suppress (NMS)' },
+  { id: 'wbf', name: 'Fuse (WBF)' }
+];
+
+export interface DuplicatePair {
+  a: Annotation; // The more confident of the two
+  b: Annotation;
+  iou: number;
+}
+
+// Annotations already on the image always win: they may have been verified or
+// edited, so a new detection overlapping one is dropped rather than merged
+export const dedupeDetections = (detections: Annotation[], existing: Annotation[], settings: DedupeSettings): Annotation[] => {
+  if (settings.mode === 'off') return detections;
+  const fresh = detections.filter(d =>
+    !existing.some(e => e.conceptId === d.conceptId && annotationIoU(e, d) >= settings.iouThreshold)
+  );
+  return settings.mode === 'wbf'
+    ? weightedBoxFusion(fresh, settings.iouThreshold)
+    : nonMaxSuppression(fresh, settings.iouThreshold);
+};
+
+export const duplicatePairKey = (pair: DuplicatePair) => [pair.a.id, pair.b.id].sort().join('|');
+
+// Same-concept pairs overlapping by at least the threshold, strongest overlap first
+export const findDuplicatePairs = (annotations: Annotation[], iouThreshold: number): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+  annotations.forEach((first, i) => {
+    annotations.slice(i + 1).forEach(second => {
+      if (first.conceptId !== second.conceptId || first.type === 'point' || second.type === 'point') return;
+      const iou = annotationIoU(first, second);
+      if (iou < iouThreshold) return;
+      const [a, b] = first.confidence >= second.confidence ? [first, second] : [second, first];
+      pairs.push({ a, b, iou });
+    });
+  });
+  return pairs.sort((x, y) => y.iou - x.iou);
+};
@@ -0,0 +1,66 @@
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|bmp|tiff?)$/i;
+
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v|ogv)$/i;
+
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+// Natural sort so frame_2.jpg precedes frame_10.jpg
+export const compareFileNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries returns results in batches until it yields an empty array
+    let batch = await readEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) {
+        files.push(...await entryToFiles(child));
+      }
+      batch = await readEntries(reader);
+    }
+    return files;
+  }
+  return [];
+};
+
+// Flattens dropped files and folders (recursively) into a list of files
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const nested = await Promise.all(entries.map(entry => entryToFiles(entry)));
+  return nested.flat();
+};
+
+export const loadImageDimensions = (src: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error(`Could not load image ${src}`));
+    img.src = src;
+  });
+
+export const loadVideoMetadata = (src: string): Promise<{ width: number; height: number; duration: number }> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight, duration: video.duration });
+    video.onerror = () => reject(new Error(`Could not load video ${src}`));
+    video.src = src;
+  });
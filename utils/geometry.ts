@@ -0,0 +1,300 @@
+import { Annotation, BoundingBox, Point } from "../types";
+import { maskIoU, maskToBox, polygonToBits, remapMask } from "./mask";
+
+// All geometry is in normalized 0-1 image coordinates
+
+export type BoxHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export const BOX_HANDLES: BoxHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+const MIN_SIZE = 0.005;
+
+export const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export const boxFromPoints = (points: Point[]): BoundingBox => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return {
+    xmin: Math.min(...xs),
+    ymin: Math.min(...ys),
+    xmax: Math.max(...xs),
+    ymax: Math.max(...ys)
+  };
+};
+
+export const handlePosition = (box: BoundingBox, handle: BoxHandle): Point => {
+  const cx = (box.xmin + box.xmax) / 2;
+  const cy = (box.ymin + box.ymax) / 2;
+  return {
+    x: handle.includes('w') ? box.xmin : handle.includes('e') ? box.xmax : cx,
+    y: handle.includes('n') ? box.ymin : handle.includes('s') ? box.ymax : cy
+  };
+};
+
+// Moves the edges named by the handle to the cursor, never letting the box invert
+export const resizeBox = (box: BoundingBox, handle: BoxHandle, cursor: Point): BoundingBox => {
+  const next = { ...box };
+  const x = clamp01(cursor.x);
+  const y = clamp01(cursor.y);
+  if (handle.includes('w')) next.xmin = Math.min(x, box.xmax - MIN_SIZE);
+  if (handle.includes('e')) next.xmax = Math.max(x, box.xmin + MIN_SIZE);
+  if (handle.includes('n')) next.ymin = Math.min(y, box.ymax - MIN_SIZE);
+  if (handle.includes('s')) next.ymax = Math.max(y, box.ymin + MIN_SIZE);
+  return next;
+};
+
+// Maps points from one box onto another, used to keep polygons in sync with box resizes
+export const remapPoints = (points: Point[], from: BoundingBox, to: BoundingBox): Point[] => {
+  const fw = from.xmax - from.xmin || 1;
+  const fh = from.ymax - from.ymin || 1;
+  return points.map(p => ({
+    x: to.xmin + ((p.x - from.xmin) / fw) * (to.xmax - to.xmin),
+    y: to.ymin + ((p.y - from.ymin) / fh) * (to.ymax - to.ymin)
+  }));
+};
+
+// Translation is clamped so the whole shape stays inside the image
+export const translateAnnotation = (ann: Annotation, dx: number, dy: number): Annotation => {
+  const { box } = ann;
+  const cdx = Math.max(-box.xmin, Math.min(1 - box.xmax, dx));
+  const cdy = Math.max(-box.ymin, Math.min(1 - box.ymax, dy));
+  return {
+    ...ann,
+    box: { xmin: box.xmin + cdx, ymin: box.ymin + cdy, xmax: box.xmax + cdx, ymax: box.ymax + cdy },
+    points: ann.points?.map(p => ({ x: p.x + cdx, y: p.y + cdy }))
+  };
+};
+
+export const resizeAnnotation = (ann: Annotation, handle: BoxHandle, cursor: Point): Annotation => {
+  const box = resizeBox(ann.box, handle, cursor);
+  return {
+    ...ann,
+    box,
+    points: ann.type === 'polygon' && ann.points ? remapPoints(ann.points, ann.box, box) : ann.points
+  };
+};
+
+// Polygon vertex edits recompute the box from the new outline
+export const withPolygonPoints = (ann: Annotation, points: Point[]): Annotation => ({
+  ...ann,
+  points,
+  box: boxFromPoints(points)
+});
+
+export const moveVertex = (ann: Annotation, index: number, cursor: Point): Annotation => {
+  const points = (ann.points || []).map((p, i) => i === index ? { x: clamp01(cursor.x), y: clamp01(cursor.y) } : p);
+  return withPolygonPoints(ann, points);
+};
+
+// Inserts a vertex after `index`, i.e. on the edge towards index + 1
+export const insertVertex = (ann: Annotation, index: number, point: Point): Annotation => {
+  const points = [...(ann.points || [])];
+  points.splice(index + 1, 0, point);
+  return withPolygonPoints(ann, points);
+};
+
+export const deleteVertex = (ann: Annotation, index: number): Annotation => {
+  const points = ann.points || [];
+  if (points.length <= 3) return ann;
+  return withPolygonPoints(ann, points.filter((_, i) => i !== index));
+};
+
+export const edgeMidpoints = (points: Point[]): Point[] =>
+  points.map((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return { x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 };
+  });
+
+// Move and resize drags only change the box of a mask annotation; the pixels are
+// remapped once on commit since re-rasterizing on every mouse move is too slow
+export const applyMaskTransform = (original: Annotation, edited: Annotation): Annotation => {
+  if (edited.type !== 'mask' || !original.mask) return edited;
+  const mask = remapMask(original.mask, original.box, edited.box);
+  return { ...edited, mask, box: maskToBox(mask) || edited.box };
+};
+
+export const lerpBox = (a: BoundingBox, b: BoundingBox, t: number): BoundingBox => ({
+  xmin: a.xmin + (b.xmin - a.xmin) * t,
+  ymin: a.ymin + (b.ymin - a.ymin) * t,
+  xmax: a.xmax + (b.xmax - a.xmax) * t,
+  ymax: a.ymax + (b.ymax - a.ymax) * t
+});
+
+// Places `count` points evenly along the closed outline, starting at its first vertex
+export const resamplePolygon = (points: Point[], count: number): Point[] => {
+  const lengths = points.map((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return Math.hypot(next.x - p.x, next.y - p.y);
+  });
+  const perimeter = lengths.reduce((sum, l) => sum + l, 0);
+  if (perimeter === 0) return Array.from({ length: count }, () => ({ ...points[0] }));
+
+  const result: Point[] = [];
+  let edge = 0;
+  let walked = 0;
+  for (let i = 0; i < count; i++) {
+    const target = (i / count) * perimeter;
+    while (edge < points.length - 1 && walked + lengths[edge] < target) {
+      walked += lengths[edge];
+      edge++;
+    }
+    const a = points[edge];
+    const b = points[(edge + 1) % points.length];
+    const t = lengths[edge] ? (target - walked) / lengths[edge] : 0;
+    result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return result;
+};
+
+// Vertex correspondence for morphing one outline into another: the smaller
+// polygon is resampled to the larger one's vertex count, then the target is
+// rotated (and reversed if needed) so paired vertices are as close as possible
+export const correspondPolygons = (from: Point[], to: Point[]): [Point[], Point[]] => {
+  const count = Math.max(from.length, to.length);
+  const a = from.length === count ? from : resamplePolygon(from, count);
+  const b = to.length === count ? to : resamplePolygon(to, count);
+
+  let best = b;
+  let bestCost = Infinity;
+  for (const candidate of [b, [...b].reverse()]) {
+    for (let offset = 0; offset < count; offset++) {
+      let cost = 0;
+      for (let i = 0; i < count && cost < bestCost; i++) {
+        const p = candidate[(i + offset) % count];
+        cost += (p.x - a[i].x) ** 2 + (p.y - a[i].y) ** 2;
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = candidate.map((_, i) => candidate[(i + offset) % count]);
+      }
+    }
+  }
+  return [a, best];
+};
+
+export const boxArea = (box: BoundingBox) =>
+  Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+
+export const boxIoU = (a: BoundingBox, b: BoundingBox): number => {
+  const intersection = boxArea({
+    xmin: Math.max(a.xmin, b.xmin),
+    ymin: Math.max(a.ymin, b.ymin),
+    xmax: Math.min(a.xmax, b.xmax),
+    ymax: Math.min(a.ymax, b.ymax)
+  });
+  const union = boxArea(a) + boxArea(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Shoelace area of a closed outline
+export const polygonArea = (points: Point[]): number =>
+  Math.abs(points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+// Sutherland-Hodgman against each box edge in turn; exact for any outline
+// since the clip region is convex
+export const clipPolygonToBox = (points: Point[], box: BoundingBox): Point[] => {
+  const edges: [(p: Point) => boolean, (a: Point, b: Point) => Point][] = [
+    [p => p.x >= box.xmin, (a, b) => ({ x: box.xmin, y: a.y + (b.y - a.y) * (box.xmin - a.x) / (b.x - a.x) })],
+    [p => p.x <= box.xmax, (a, b) => ({ x: box.xmax, y: a.y + (b.y - a.y) * (box.xmax - a.x) / (b.x - a.x) })],
+    [p => p.y >= box.ymin, (a, b) => ({ x: a.x + (b.x - a.x) * (box.ymin - a.y) / (b.y - a.y), y: box.ymin })],
+    [p => p.y <= box.ymax, (a, b) => ({ x: a.x + (b.x - a.x) * (box.ymax - a.y) / (b.y - a.y), y: box.ymax })]
+  ];
+  return edges.reduce((outline, [inside, cross]) => outline.flatMap((current, i) => {
+    const previous = outline[(i + outline.length - 1) % outline.length];
+    if (inside(current)) return inside(previous) ? [current] : [cross(previous, current), current];
+    return inside(previous) ? [cross(previous, current)] : [];
+  }), points);
+};
+
+const IOU_GRID = 64;
+
+// Outlines may be concave or self-touching, so overlap is counted on a grid
+// spanning both shapes rather than clipped exactly; good to about a percent
+export const polygonIoU = (a: Point[], b: Point[]): number => {
+  if (a.length < 3 || b.length < 3) return 0;
+  const boxA = boxFromPoints(a);
+  const boxB = boxFromPoints(b);
+  if (boxIoU(boxA, boxB) === 0) return 0;
+  const bounds = {
+    xmin: Math.min(boxA.xmin, boxB.xmin),
+    ymin: Math.min(boxA.ymin, boxB.ymin),
+    xmax: Math.max(boxA.xmax, boxB.xmax),
+    ymax: Math.max(boxA.ymax, boxB.ymax)
+  };
+  const unit = { xmin: 0, ymin: 0, xmax: 1, ymax: 1 };
+  const bitsA = polygonToBits(remapPoints(a, bounds, unit), IOU_GRID, IOU_GRID);
+  const bitsB = polygonToBits(remapPoints(b, bounds, unit), IOU_GRID, IOU_GRID);
+  let intersection = 0;
+  let union = 0;
+  for (let i = 0; i < bitsA.length; i++) {
+    if (bitsA[i] && bitsB[i]) intersection++;
+    if (bitsA[i] || bitsB[i]) union++;
+  }
+  return union > 0 ? intersection / union : 0;
+};
+
+const outlineOf = (ann: Annotation): Point[] | null => {
+  if (ann.type === 'polygon' && ann.points && ann.points.length >= 3) return ann.points;
+  const { xmin, ymin, xmax, ymax } = ann.box;
+  return [{ x: xmin, y: ymin }, { x: xmax, y: ymin }, { x: xmax, y: ymax }, { x: xmin, y: ymax }];
+};
+
+// Shape-aware overlap: pixel masks of the same size compare pixels, polygons
+// compare outlines (a box counts as its rectangle), anything else its box
+export const annotationIoU = (a: Annotation, b: Annotation): number => {
+  const coarse = boxIoU(a.box, b.box);
+  if (coarse === 0) return 0;
+  if (a.mask && b.mask && a.mask.size[0] === b.mask.size[0] && a.mask.size[1] === b.mask.size[1]) {
+    return maskIoU(a.mask, b.mask);
+  }
+  if (a.type === 'polygon' || b.type === 'polygon') return polygonIoU(outlineOf(a)!, outlineOf(b)!);
+  return coarse;
+};
+
+// Greedy per-concept NMS: the most confident annotation suppresses every
+// same-concept annotation overlapping it by at least `iouThreshold`
+export const nonMaxSuppression = (annotations: Annotation[], iouThreshold: number): Annotation[] => {
+  const kept: Annotation[] = [];
+  [...annotations]
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach(candidate => {
+      const suppressed = kept.some(k => k.conceptId === candidate.conceptId && annotationIoU(k, candidate) >= iouThreshold);
+      if (!suppressed) kept.push(candidate);
+    });
+  return kept;
+};
+
+// Weighted box fusion (Solovyev et al. 2019) for one model's output: overlapping
+// same-concept annotations are clustered around the most confident one and
+// replaced by it with a confidence-weighted mean box and the mean confidence.
+// Polygons follow the fused box; masks keep their pixels and box.
+export const fuseAnnotations = (cluster: Annotation[]): Annotation => {
+  const [best] = [...cluster].sort((a, b) => b.confidence - a.confidence);
+  if (cluster.length === 1) return best;
+  const weight = cluster.reduce((sum, a) => sum + a.confidence, 0) || 1;
+  const mean = (key: keyof BoundingBox) => cluster.reduce((sum, a) => sum + a.box[key] * a.confidence, 0) / weight;
+  const confidence = cluster.reduce((sum, a) => sum + a.confidence, 0) / cluster.length;
+  if (best.type === 'mask' && best.mask) return { ...best, confidence };
+  const box = { xmin: mean('xmin'), ymin: mean('ymin'), xmax: mean('xmax'), ymax: mean('ymax') };
+  return {
+    ...best,
+    box,
+    confidence,
+    points: best.type === 'polygon' && best.points ? remapPoints(best.points, best.box, box) : best.points
+  };
+};
+
+export const weightedBoxFusion = (annotations: Annotation[], iouThreshold: number): Annotation[] => {
+  const clusters: Annotation[][] = [];
+  [...annotations]
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach(candidate => {
+      const cluster = clusters.find(c => c[0].conceptId === candidate.conceptId && annotationIoU(c[0], candidate) >= iouThreshold);
+      if (cluster) cluster.push(candidate);
+      else clusters.push([candidate]);
+    });
+  return clusters.map(fuseAnnotations);
+};
@@ -0,0 +1,105 @@
+import { Annotation, Concept } from "../types";
+
+// The undoable part of the session. Updates are immutable, so snapshots share
+// structure and keeping one per command is cheap.
+export interface LabelDocument {
+  annotations: Annotation[];
+  concepts: Concept[];
+}
+
+export type CommandKind =
+  | 'add'
+  | 'delete'
+  | 'verify'
+  | 'reject'
+  | 'concept-add'
+  | 'concept-delete'
+  | 'visibility'
+  | 'geometry'
+  | 'prompt'
+  | 'track'
+  | 'identity'
+  | 'relabel'
+  | 'dedupe'
+  | 'import';
+
+export interface HistoryCommand {
+  id: number;
+  kind: CommandKind;
+  label: string;
+  timestamp: number;
+  before: LabelDocument;
+  after: LabelDocument;
+}
+
+export interface HistoryState {
+  past: HistoryCommand[]; // Oldest first
+  future: HistoryCommand[]; // Next redo first
+}
+
+export const HISTORY_LIMIT = 200;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+let nextCommandId = 1;
+
+export const createCommand = (
+  kind: CommandKind,
+  label: string,
+  before: LabelDocument,
+  after: LabelDocument
+): HistoryCommand => ({
+  id: nextCommandId++,
+  kind,
+  label,
+  timestamp: Date.now(),
+  before,
+  after
+});
+
+// Recording a new command discards anything that could have been redone
+export const recordCommand = (history: HistoryState, command: HistoryCommand): HistoryState => ({
+  past: [...history.past, command].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+export const undoCommand = (history: HistoryState): { history: HistoryState; document: LabelDocument } | null => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+    document: command.before
+  };
+};
+
+export const redoCommand = (history: HistoryState): { history: HistoryState; document: LabelDocument } | null => {
+  const command = history.future[0];
+  if (!command) return null;
+  return {
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+    document: command.after
+  };
+};
+
+// Moves through history until `commandId` is the most recently applied command
+export const jumpToCommand = (history: HistoryState, commandId: number): { history: HistoryState; document: LabelDocument } | null => {
+  const pastIndex = history.past.findIndex(c => c.id === commandId);
+  if (pastIndex >= 0) {
+    const undone = history.past.slice(pastIndex + 1);
+    if (undone.length === 0) return null;
+    return {
+      history: { past: history.past.slice(0, pastIndex + 1), future: [...undone, ...history.future] },
+      document: history.past[pastIndex].after
+    };
+  }
+
+  const futureIndex = history.future.findIndex(c => c.id === commandId);
+  if (futureIndex < 0) return null;
+  return {
+    history: {
+      past: [...history.past, ...history.future.slice(0, futureIndex + 1)],
+      future: history.future.slice(futureIndex + 1)
+    },
+    document: history.future[futureIndex].after
+  };
+};
@@ -0,0 +1,84 @@
+import { Annotation } from "../types";
+
+// Instance identities. `trackId` numbers the objects of each concept across the
+// whole dataset, so "person #3" is the same object on every frame and image it
+// appears in. Annotation ids are internal and change on every detection; track
+// ids are what users and MOT-style exports see.
+
+export const trackLabel = (conceptName: string, ann: Annotation) =>
+  ann.trackId !== undefined ? `${conceptName} #${ann.trackId}` : conceptName;
+
+export const nextTrackId = (annotations: Annotation[], conceptId: string) =>
+  annotations.reduce((max, a) => a.conceptId === conceptId && a.trackId !== undefined ? Math.max(max, a.trackId) : max, 0) + 1;
+
+// New annotations without an identity get the next free number of their concept
+export const assignTrackIds = (existing: Annotation[], incoming: Annotation[]): Annotation[] => {
+  const assigned: Annotation[] = [];
+  incoming.forEach(ann => {
+    assigned.push(ann.trackId !== undefined ? ann : { ...ann, trackId: nextTrackId([...existing, ...assigned], ann.conceptId) });
+  });
+  return assigned;
+};
+
+// Older projects and imports predate identities
+export const ensureTrackIds = (annotations: Annotation[]): Annotation[] => {
+  const withIds = annotations.filter(a => a.trackId !== undefined);
+  const missing = annotations.filter(a => a.trackId === undefined);
+  if (missing.length === 0) return annotations;
+
+  const assigned = new Map(assignTrackIds(withIds, missing).map(a => [a.id, a]));
+  return annotations.map(a => assigned.get(a.id) || a);
+};
+
+// Another object of the same concept on the same image holding `trackId`, if any
+const holderOf = (annotations: Annotation[], target: Annotation, trackId: number) =>
+  annotations.find(a =>
+    a.id !== target.id && a.imageId === target.imageId && a.conceptId === target.conceptId && a.trackId === trackId
+  );
+
+// Gives an annotation a new identity. Ids stay unique per image: an object
+// already holding the number takes over the old one.
+export const reassignTrackId = (annotations: Annotation[], id: string, trackId: number): Annotation[] => {
+  const target = annotations.find(a => a.id === id);
+  if (!target || target.trackId === trackId || !Number.isInteger(trackId) || trackId < 1) return annotations;
+
+  const holder = holderOf(annotations, target, trackId);
+  return annotations.map(a => {
+    if (a.id === id) return { ...a, trackId };
+    if (holder && a.id === holder.id) return { ...a, trackId: target.trackId };
+    return a;
+  });
+};
+
+export const swapTrackIds = (annotations: Annotation[], firstId: string, secondId: string): Annotation[] => {
+  const first = annotations.find(a => a.id === firstId);
+  const second = annotations.find(a => a.id === secondId);
+  if (!first || !second || first.conceptId !== second.conceptId) return annotations;
+
+  return annotations.map(a => {
+    if (a.id === firstId) return { ...a, trackId: second.trackId };
+    if (a.id === secondId) return { ...a, trackId: first.trackId };
+    return a;
+  });
+};
+
+// Compacts a concept's identities to 1..n in order of first appearance: dataset
+// image order, then start frame, then left edge. Annotations sharing an id keep sharing it.
+export const renumberTrackIds = (annotations: Annotation[], conceptId: string, imageOrder: string[]): Annotation[] => {
+  const position = (a: Annotation) => {
+    const index = imageOrder.indexOf(a.imageId || '');
+    return index === -1 ? imageOrder.length : index;
+  };
+  const ordered = annotations
+    .filter(a => a.conceptId === conceptId && a.trackId !== undefined)
+    .sort((a, b) => position(a) - position(b) || (a.frameStart ?? 0) - (b.frameStart ?? 0) || a.box.xmin - b.box.xmin);
+
+  const mapping = new Map<number, number>();
+  ordered.forEach(a => {
+    if (!mapping.has(a.trackId!)) mapping.set(a.trackId!, mapping.size + 1);
+  });
+
+  return annotations.map(a =>
+    a.conceptId === conceptId && a.trackId !== undefined ? { ...a, trackId: mapping.get(a.trackId)! } : a
+  );
+};
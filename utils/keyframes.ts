@@ -0,0 +1,211 @@
+import { Annotation, ImageMeta, Keyframe } from "../types";
+import { correspondPolygons, lerpBox, remapPoints } from "./geometry";
+import { remapMask } from "./mask";
+
+// Video annotations are tracks: frameStart/frameEnd bound the track (inclusive)
+// and keyframes carry the geometry. Between two keyframes boxes and polygons are
+// interpolated linearly; masks, and frames outside the keyframed range, hold the
+// nearest keyframe. Trackers write a propagated keyframe on every frame they
+// visit; those carry per-frame confidence and give way to hand-set keyframes.
+
+export const DEFAULT_FPS = 30;
+
+export const isVideo = (media?: ImageMeta) => media?.mediaType === 'video';
+
+export const getFps = (media: ImageMeta) => media.fps || DEFAULT_FPS;
+
+export const getFrameCount = (media: ImageMeta) =>
+  media.frameCount || Math.max(1, Math.round((media.duration || 0) * getFps(media)));
+
+// Seeking to the middle of a frame avoids landing on a boundary and decoding its predecessor
+export const frameToTime = (frame: number, fps: number) => (frame + 0.5) / fps;
+
+export const timeToFrame = (time: number, fps: number) => Math.max(0, Math.floor(time * fps + 1e-6));
+
+export const formatTimecode = (frame: number, fps: number) => {
+  const seconds = Math.floor(frame / fps);
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(frame - seconds * fps);
+  return `${minutes.toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}.${rest.toString().padStart(2, '0')}`;
+};
+
+export const isInTrack = (ann: Annotation, frame: number) =>
+  frame >= (ann.frameStart ?? 0) && frame <= (ann.frameEnd ?? Infinity);
+
+// Latest keyframe at or before the frame, or the first one before the track's first keyframe
+export const keyframeAt = (ann: Annotation, frame: number): Keyframe | undefined => {
+  const keyframes = ann.keyframes || [];
+  let current = keyframes[0];
+  for (const keyframe of keyframes) {
+    if (keyframe.frame > frame) break;
+    current = keyframe;
+  }
+  return current;
+};
+
+// Hand-set keyframes only; propagated frames are estimates like interpolated ones
+export const isKeyframe = (ann: Annotation, frame: number) =>
+  !!ann.keyframes?.some(k => k.frame === frame && !k.propagated);
+
+// Keyframe geometry at a frame between `from` and `to`
+export const interpolateKeyframes = (from: Keyframe, to: Keyframe, frame: number): Keyframe => {
+  if (from.mask || to.mask) return { ...from, frame };
+
+  const t = (frame - from.frame) / (to.frame - from.frame);
+  const box = lerpBox(from.box, to.box, t);
+  if (!from.points || from.points.length < 3) return { frame, box, points: from.points };
+  if (!to.points || to.points.length < 3) {
+    // Polygon to box: the outline follows the box
+    return { frame, box, points: remapPoints(from.points, from.box, box) };
+  }
+
+  const [a, b] = correspondPolygons(from.points, to.points);
+  const points = a.map((p, i) => ({ x: p.x + (b[i].x - p.x) * t, y: p.y + (b[i].y - p.y) * t }));
+  return { frame, box, points };
+};
+
+// The annotation as it appears on one frame, or null outside its track
+export const resolveAtFrame = (ann: Annotation, frame: number): Annotation | null => {
+  if (!ann.keyframes?.length) return ann;
+  if (!isInTrack(ann, frame)) return null;
+  const previous = keyframeAt(ann, frame)!;
+  const next = ann.keyframes.find(k => k.frame > frame);
+  const geometry = next && previous.frame < frame ? interpolateKeyframes(previous, next, frame) : previous;
+  return {
+    ...ann,
+    box: geometry.box,
+    points: geometry.points,
+    mask: geometry.mask,
+    confidence: geometry.confidence ?? ann.confidence
+  };
+};
+
+// Removing the last keyframe would leave the track without geometry
+export const removeKeyframe = (track: Annotation, frame: number): Annotation => {
+  if (!track.keyframes || track.keyframes.length <= 1) return track;
+  const keyframes = track.keyframes.filter(k => k.frame !== frame);
+  if (keyframes.length === track.keyframes.length) return track;
+  const first = keyframes[0];
+  return { ...track, keyframes, box: first.box, points: first.points, mask: first.mask };
+};
+
+const withKeyframes = (track: Annotation, keyframes: Keyframe[]): Annotation => {
+  const sorted = [...keyframes].sort((a, b) => a.frame - b.frame);
+  const first = sorted[0];
+  return {
+    ...track,
+    keyframes: sorted,
+    box: first.box,
+    points: first.points,
+    mask: first.mask,
+    frameStart: Math.min(track.frameStart ?? first.frame, first.frame),
+    frameEnd: Math.max(track.frameEnd ?? sorted[sorted.length - 1].frame, sorted[sorted.length - 1].frame)
+  };
+};
+
+// Stores an edit made on `frame` as that frame's keyframe; other fields of `edited` apply to the whole track
+export const writeAtFrame = (track: Annotation, edited: Annotation, frame: number): Annotation => {
+  if (!track.keyframes?.length) return edited;
+  const keyframe: Keyframe = { frame, box: edited.box, points: edited.points, mask: edited.mask };
+  return withKeyframes(edited, [...track.keyframes.filter(k => k.frame !== frame), keyframe]);
+};
+
+// New annotations on a video start a track at the current frame that runs to the end
+export const startTrack = (ann: Annotation, frame: number, lastFrame: number): Annotation =>
+  withKeyframes(
+    { ...ann, frameStart: frame, frameEnd: lastFrame },
+    [{ frame, box: ann.box, points: ann.points, mask: ann.mask }]
+  );
+
+// Whether `frame` lies strictly inside the track, so both halves of a split keep at least one frame
+export const canSplitAt = (track: Annotation, frame: number) =>
+  frame > (track.frameStart ?? 0) && frame <= (track.frameEnd ?? Infinity);
+
+// Cuts a track before `frame`. Keyframes are added on both sides of the cut so
+// each half looks exactly as the original did on its frames.
+export const splitTrack = (track: Annotation, frame: number, newId: string): [Annotation, Annotation] | null => {
+  if (!canSplitAt(track, frame)) return null;
+
+  if (!track.keyframes?.length) {
+    // Still images use a continuous 0-100 range, so both halves share the cut position
+    return [
+      { ...track, frameEnd: frame },
+      { ...track, id: newId, frameStart: frame }
+    ];
+  }
+
+  const toKeyframe = (at: number): Keyframe => {
+    const resolved = resolveAtFrame(track, at)!;
+    return { frame: at, box: resolved.box, points: resolved.points, mask: resolved.mask };
+  };
+  const before = track.keyframes.filter(k => k.frame < frame - 1);
+  const after = track.keyframes.filter(k => k.frame > frame);
+
+  const head = withKeyframes({ ...track, frameEnd: frame - 1 }, [...before, toKeyframe(frame - 1)]);
+  const tail = withKeyframes({ ...track, id: newId, frameStart: frame }, [toKeyframe(frame), ...after]);
+  return [head, tail];
+};
+
+// Joins two tracks of one object into the primary's identity. Where both tracks
+// cover a frame the primary's geometry wins; the secondary only contributes
+// keyframes outside the primary's range, and gaps between them interpolate.
+export const mergeTracks = (primary: Annotation, secondary: Annotation): Annotation => {
+  const merged: Annotation = {
+    ...primary,
+    isVerified: primary.isVerified && secondary.isVerified,
+    frameStart: Math.min(primary.frameStart ?? 0, secondary.frameStart ?? 0),
+    frameEnd: Math.max(primary.frameEnd ?? 0, secondary.frameEnd ?? 0)
+  };
+  if (!primary.keyframes?.length) return merged;
+
+  const outside = (secondary.keyframes || []).filter(k => !isInTrack(primary, k.frame));
+  return withKeyframes(merged, [...primary.keyframes, ...outside]);
+};
+
+// Frames a propagation from `frame` visits: every frame up to, but not including,
+// the next hand-set keyframe in that direction, or to the edge of the clip
+export const propagationFrames = (track: Annotation, frame: number, direction: 1 | -1, lastFrame: number): number[] => {
+  const manual = (track.keyframes || []).filter(k => !k.propagated).map(k => k.frame);
+  const stop = direction > 0
+    ? Math.min(lastFrame + 1, ...manual.filter(f => f > frame))
+    : Math.max(-1, ...manual.filter(f => f < frame));
+  const frames: number[] = [];
+  for (let f = frame + direction; f !== stop; f += direction) frames.push(f);
+  return frames;
+};
+
+// Writes tracker output into the track. Earlier propagated keyframes in the
+// visited range are replaced; the shape on `frame` moves with the tracked box,
+// and if the tracker lost the object before reaching a hand-set keyframe the
+// track ends where it was lost.
+export const applyPropagation = (track: Annotation, frame: number, frames: number[], tracked: Keyframe[]): Annotation => {
+  const source = resolveAtFrame(track, frame);
+  if (!source || !track.keyframes?.length || frames.length === 0) return track;
+
+  const visited = new Set(frames);
+  const kept = track.keyframes.filter(k => !visited.has(k.frame) && k.frame !== frame);
+  const anchor = track.keyframes.find(k => k.frame === frame)
+    || { frame, box: source.box, points: source.points, mask: source.mask };
+
+  const propagated = tracked.map((t): Keyframe => ({
+    frame: t.frame,
+    box: t.box,
+    points: source.points && remapPoints(source.points, source.box, t.box),
+    mask: source.mask && remapMask(source.mask, source.box, t.box),
+    confidence: t.confidence,
+    propagated: true
+  }));
+
+  let { frameStart, frameEnd } = track;
+  const forward = frames[0] > frame;
+  const reachedEnd = tracked.length === frames.length;
+  const bounded = kept.some(k => forward ? k.frame > frame : k.frame < frame);
+  if (!reachedEnd && !bounded) {
+    const last = tracked.length ? tracked[tracked.length - 1].frame : frame;
+    if (forward) frameEnd = last;
+    else frameStart = last;
+  }
+
+  const keyframes = [...kept, anchor, ...propagated].filter(k => k.frame >= (frameStart ?? 0) && k.frame <= (frameEnd ?? Infinity));
+  return withKeyframes({ ...track, frameStart, frameEnd }, keyframes);
+};
@@ -0,0 +1,324 @@
+import { BoundingBox, Point, RLEMask } from "../types";
+
+// Masks are COCO-style uncompressed RLE: `counts` alternates background and
+// foreground run lengths, starting with background, over the pixels in
+// column-major order (down each column, then across), as pycocotools expects.
+// Decoded bitmaps in this module are row-major Uint8Arrays of 0/1.
+
+export const maskWidth = (rle: RLEMask) => rle.size[1];
+export const maskHeight = (rle: RLEMask) => rle.size[0];
+
+export const encodeRLE = (bits: Uint8Array, width: number, height: number): RLEMask => {
+  const counts: number[] = [];
+  let current = 0;
+  let run = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const value = bits[y * width + x] ? 1 : 0;
+      if (value !== current) {
+        counts.push(run);
+        run = 0;
+        current = value;
+      }
+      run++;
+    }
+  }
+  counts.push(run);
+  return { size: [height, width], counts };
+};
+
+export const decodeRLE = (rle: RLEMask): Uint8Array => {
+  const [height, width] = rle.size;
+  const bits = new Uint8Array(width * height);
+  let index = 0;
+  rle.counts.forEach((run, i) => {
+    if (i % 2 === 1) {
+      for (let k = index; k < index + run; k++) {
+        const x = Math.floor(k / height);
+        const y = k - x * height;
+        bits[y * width + x] = 1;
+      }
+    }
+    index += run;
+  });
+  return bits;
+};
+
+// Decodes the compressed string form of COCO counts (pycocotools rleFrString)
+export const decodeCocoCountsString = (encoded: string): number[] => {
+  const counts: number[] = [];
+  let p = 0;
+  while (p < encoded.length) {
+    let x = 0;
+    let k = 0;
+    let more = 1;
+    while (more) {
+      const c = encoded.charCodeAt(p) - 48;
+      x |= (c & 0x1f) << (5 * k);
+      more = c & 0x20;
+      p++;
+      k++;
+      if (!more && (c & 0x10)) x |= -1 << (5 * k);
+    }
+    if (counts.length > 2) x += counts[counts.length - 2];
+    counts.push(x);
+  }
+  return counts;
+};
+
+export const maskArea = (rle: RLEMask): number =>
+  rle.counts.reduce((sum, run, i) => (i % 2 === 1 ? sum + run : sum), 0);
+
+// Walks both run lists in step, so same-sized masks compare without decoding
+export const maskIoU = (a: RLEMask, b: RLEMask): number => {
+  let ia = 0, ib = 0;
+  let leftA = a.counts[0] ?? 0, leftB = b.counts[0] ?? 0;
+  let intersection = 0, union = 0;
+  while (ia < a.counts.length && ib < b.counts.length) {
+    const step = Math.min(leftA, leftB);
+    const onA = ia % 2 === 1;
+    const onB = ib % 2 === 1;
+    if (onA && onB) intersection += step;
+    if (onA || onB) union += step;
+    leftA -= step;
+    leftB -= step;
+    while (leftA === 0 && ++ia < a.counts.length) leftA = a.counts[ia];
+    while (leftB === 0 && ++ib < b.counts.length) leftB = b.counts[ib];
+  }
+  return union > 0 ? intersection / union : 0;
+};
+
+// Normalized bounding box of the foreground, or null for an empty mask
+export const maskToBox = (rle: RLEMask): BoundingBox | null => {
+  const [height, width] = rle.size;
+  let xmin = width, ymin = height, xmax = -1, ymax = -1;
+  let index = 0;
+  rle.counts.forEach((run, i) => {
+    if (i % 2 === 1 && run > 0) {
+      const startX = Math.floor(index / height);
+      const endX = Math.floor((index + run - 1) / height);
+      xmin = Math.min(xmin, startX);
+      xmax = Math.max(xmax, endX);
+      // A run spanning a column boundary covers the full column height
+      if (endX > startX) {
+        ymin = 0;
+        ymax = height - 1;
+      } else {
+        ymin = Math.min(ymin, index - startX * height);
+        ymax = Math.max(ymax, index + run - 1 - startX * height);
+      }
+    }
+    index += run;
+  });
+  if (xmax < 0) return null;
+  return { xmin: xmin / width, ymin: ymin / height, xmax: (xmax + 1) / width, ymax: (ymax + 1) / height };
+};
+
+// Even-odd scanline fill of a normalized polygon at the given pixel resolution
+export const polygonToBits = (points: Point[], width: number, height: number, bits = new Uint8Array(width * height)): Uint8Array => {
+  const px = points.map(p => ({ x: p.x * width, y: p.y * height }));
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0; i < px.length; i++) {
+      const a = px[i];
+      const b = px[(i + 1) % px.length];
+      if ((a.y <= cy && b.y > cy) || (b.y <= cy && a.y > cy)) {
+        crossings.push(a.x + ((cy - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const from = Math.max(0, Math.ceil(crossings[i] - 0.5));
+      const to = Math.min(width - 1, Math.floor(crossings[i + 1] - 0.5));
+      for (let x = from; x <= to; x++) bits[y * width + x] = 1;
+    }
+  }
+  return bits;
+};
+
+export const polygonToMask = (points: Point[], width: number, height: number): RLEMask =>
+  encodeRLE(polygonToBits(points, width, height), width, height);
+
+export const boxToMask = (box: BoundingBox, width: number, height: number): RLEMask =>
+  polygonToMask([
+    { x: box.xmin, y: box.ymin },
+    { x: box.xmax, y: box.ymin },
+    { x: box.xmax, y: box.ymax },
+    { x: box.xmin, y: box.ymax }
+  ], width, height);
+
+// Keeps only the largest 4-connected component
+const largestComponent = (bits: Uint8Array, width: number, height: number): Uint8Array => {
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < bits.length; start++) {
+    if (!bits[start] || labels[start]) continue;
+    label++;
+    let size = 0;
+    stack.push(start);
+    labels[start] = label;
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const neighbors = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i - width,
+        i + width
+      ];
+      for (const n of neighbors) {
+        if (n >= 0 && n < bits.length && bits[n] && !labels[n]) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+
+  const out = new Uint8Array(bits.length);
+  for (let i = 0; i < bits.length; i++) out[i] = labels[i] === bestLabel && bestLabel > 0 ? 1 : 0;
+  return out;
+};
+
+// Follows the outer pixel edges clockwise (foreground on the right), returning
+// the pixel-corner vertices where the outline turns
+const traceBoundary = (bits: Uint8Array, width: number, height: number): Point[] => {
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && bits[y * width + x] === 1;
+
+  const start = bits.indexOf(1);
+  if (start < 0) return [];
+  const sx = start % width;
+  const sy = Math.floor(start / width);
+
+  // E, S, W, N; the pixel ahead-right and ahead-left of a corner for each heading
+  const steps = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+  const aheadRight = [[0, 0], [-1, 0], [-1, -1], [0, -1]];
+  const aheadLeft = [[0, -1], [0, 0], [-1, 0], [-1, -1]];
+
+  const contour: Point[] = [];
+  let x = sx, y = sy, dir = 0;
+  const limit = (width + 1) * (height + 1) * 4;
+
+  for (let i = 0; i < limit; i++) {
+    x += steps[dir][0];
+    y += steps[dir][1];
+    if (x === sx && y === sy) break;
+    let next = dir;
+    if (!at(x + aheadRight[dir][0], y + aheadRight[dir][1])) next = (dir + 1) % 4;
+    else if (at(x + aheadLeft[dir][0], y + aheadLeft[dir][1])) next = (dir + 3) % 4;
+    if (next !== dir) contour.push({ x, y });
+    dir = next;
+  }
+  contour.unshift({ x: sx, y: sy });
+  return contour;
+};
+
+const perpendicularDistance = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / length;
+};
+
+export const simplifyPolygon = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 3) return points;
+  let maxDistance = 0;
+  let index = 0;
+  const last = points.length - 1;
+  for (let i = 1; i < last; i++) {
+    const d = perpendicularDistance(points[i], points[0], points[last]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+  if (maxDistance <= tolerance) return [points[0], points[last]];
+  const left = simplifyPolygon(points.slice(0, index + 1), tolerance);
+  const right = simplifyPolygon(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Outline of the largest connected region as a normalized polygon
+export const maskToPolygon = (rle: RLEMask, tolerancePx = 1): Point[] => {
+  const [height, width] = rle.size;
+  const component = largestComponent(decodeRLE(rle), width, height);
+  const contour = traceBoundary(component, width, height);
+  if (contour.length < 3) return [];
+
+  // Split the closed contour at its farthest point so both halves simplify well
+  let far = 0;
+  let farDistance = 0;
+  contour.forEach((p, i) => {
+    const d = Math.hypot(p.x - contour[0].x, p.y - contour[0].y);
+    if (d > farDistance) {
+      farDistance = d;
+      far = i;
+    }
+  });
+  const first = simplifyPolygon(contour.slice(0, far + 1), tolerancePx);
+  const second = simplifyPolygon([...contour.slice(far), contour[0]], tolerancePx);
+  const simplified = [...first.slice(0, -1), ...second.slice(0, -1)];
+
+  return simplified.map(p => ({ x: p.x / width, y: p.y / height }));
+};
+
+// Places a mask covering `region` of a larger image (e.g. a detection tile)
+// into a mask of that image's full pixel size (nearest neighbour)
+export const embedMask = (rle: RLEMask, region: BoundingBox, width: number, height: number): RLEMask => {
+  const [sourceHeight, sourceWidth] = rle.size;
+  const source = decodeRLE(rle);
+  const target = new Uint8Array(width * height);
+
+  const x0 = Math.max(0, Math.floor(region.xmin * width));
+  const x1 = Math.min(width, Math.ceil(region.xmax * width));
+  const y0 = Math.max(0, Math.floor(region.ymin * height));
+  const y1 = Math.min(height, Math.ceil(region.ymax * height));
+  const regionWidth = region.xmax - region.xmin || 1;
+  const regionHeight = region.ymax - region.ymin || 1;
+
+  for (let y = y0; y < y1; y++) {
+    const sy = Math.floor((((y + 0.5) / height - region.ymin) / regionHeight) * sourceHeight);
+    if (sy < 0 || sy >= sourceHeight) continue;
+    for (let x = x0; x < x1; x++) {
+      const sx = Math.floor((((x + 0.5) / width - region.xmin) / regionWidth) * sourceWidth);
+      if (sx >= 0 && sx < sourceWidth && source[sy * sourceWidth + sx]) target[y * width + x] = 1;
+    }
+  }
+  return encodeRLE(target, width, height);
+};
+
+// Maps the mask content inside `from` onto `to` (nearest neighbour), used when
+// a mask annotation is moved or resized as a box
+export const remapMask = (rle: RLEMask, from: BoundingBox, to: BoundingBox): RLEMask => {
+  const [height, width] = rle.size;
+  const source = decodeRLE(rle);
+  const target = new Uint8Array(width * height);
+
+  const x0 = Math.max(0, Math.floor(to.xmin * width));
+  const x1 = Math.min(width, Math.ceil(to.xmax * width));
+  const y0 = Math.max(0, Math.floor(to.ymin * height));
+  const y1 = Math.min(height, Math.ceil(to.ymax * height));
+  const scaleX = (from.xmax - from.xmin) / (to.xmax - to.xmin || 1);
+  const scaleY = (from.ymax - from.ymin) / (to.ymax - to.ymin || 1);
+
+  for (let y = y0; y < y1; y++) {
+    const sy = Math.floor((from.ymin + ((y + 0.5) / height - to.ymin) * scaleY) * height);
+    if (sy < 0 || sy >= height) continue;
+    for (let x = x0; x < x1; x++) {
+      const sx = Math.floor((from.xmin + ((x + 0.5) / width - to.xmin) * scaleX) * width);
+      if (sx >= 0 && sx < width && source[sy * width + sx]) target[y * width + x] = 1;
+    }
+  }
+  return encodeRLE(target, width, height);
+};
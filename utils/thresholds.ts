@@ -0,0 +1,37 @@
+import { Annotation } from "../types";
+
+// Confidence thresholds filter model pre-labels. A concept's own threshold
+// overrides the global one; verified annotations are never filtered, since a
+// person already accepted them.
+
+export interface ConfidenceThresholds {
+  global: number; // 0 to 1
+  perConcept: Record<string, number>;
+}
+
+export const DEFAULT_THRESHOLDS: ConfidenceThresholds = { global: 0, perConcept: {} };
+
+export const HISTOGRAM_BINS = 10;
+
+export const thresholdFor = (thresholds: ConfidenceThresholds, conceptId: string) =>
+  thresholds.perConcept[conceptId] ?? thresholds.global;
+
+export const isBelowThreshold = (ann: Annotation, thresholds: ConfidenceThresholds) =>
+  !ann.isVerified && ann.confidence < thresholdFor(thresholds, ann.conceptId);
+
+// Counts per equal-width score bin; a score of exactly 1 falls in the last bin
+export const confidenceHistogram = (annotations: Annotation[], bins = HISTOGRAM_BINS): number[] => {
+  const counts = new Array(bins).fill(0);
+  annotations.forEach(a => {
+    const bin = Math.min(bins - 1, Math.max(0, Math.floor(a.confidence * bins)));
+    counts[bin]++;
+  });
+  return counts;
+};
+
+export const withConceptThreshold = (thresholds: ConfidenceThresholds, conceptId: string, value: number | null): ConfidenceThresholds => {
+  const perConcept = { ...thresholds.perConcept };
+  if (value === null) delete perConcept[conceptId];
+  else perConcept[conceptId] = value;
+  return { ...thresholds, perConcept };
+};
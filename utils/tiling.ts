@@ -0,0 +1,104 @@
+import { Annotation, BoundingBox } from "../types";
+import { boxArea } from "./geometry";
+import { embedMask, maskToBox } from "./mask";
+
+// Pixel rectangles of the source image sent to a detector, and the mapping of
+// their (region-normalized) results back into full-image coordinates
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_REGION: BoundingBox = { xmin: 0, ymin: 0, xmax: 1, ymax: 1 };
+
+// Size after shrinking so the longer edge is at most `maxEdge`; never enlarges
+export const fitWithin = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Start offsets along one axis: tiles overlap by at least `overlap` of their
+// size, spread evenly so the last one ends flush with the edge
+const tileOffsets = (length: number, tileSize: number, overlap: number): number[] => {
+  if (length <= tileSize) return [0];
+  const stride = tileSize * (1 - overlap);
+  const count = Math.ceil((length - tileSize) / stride) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((i * (length - tileSize)) / (count - 1)));
+};
+
+export const planTiles = (width: number, height: number, tileSize: number, overlap: number): PixelRect[] => {
+  const xs = tileOffsets(width, tileSize, overlap);
+  const ys = tileOffsets(height, tileSize, overlap);
+  return ys.flatMap(y => xs.map(x => ({ x, y, width: Math.min(tileSize, width), height: Math.min(tileSize, height) })));
+};
+
+export const rectToRegion = (rect: PixelRect, width: number, height: number): BoundingBox => ({
+  xmin: rect.x / width,
+  ymin: rect.y / height,
+  xmax: (rect.x + rect.width) / width,
+  ymax: (rect.y + rect.height) / height
+});
+
+const fromRegion = (region: BoundingBox, x: number, y: number) => ({
+  x: region.xmin + x * (region.xmax - region.xmin),
+  y: region.ymin + y * (region.ymax - region.ymin)
+});
+
+// Remaps a detection made on `region` into the full image; masks are redrawn
+// at the full image's pixel size
+export const regionToImage = (ann: Annotation, region: BoundingBox, width: number, height: number): Annotation => {
+  const topLeft = fromRegion(region, ann.box.xmin, ann.box.ymin);
+  const bottomRight = fromRegion(region, ann.box.xmax, ann.box.ymax);
+  const alreadyFull = region === FULL_REGION && ann.mask?.size[0] === height && ann.mask?.size[1] === width;
+  const mask = ann.mask && !alreadyFull ? embedMask(ann.mask, region, width, height) : ann.mask;
+  return {
+    ...ann,
+    box: (mask && maskToBox(mask)) || { xmin: topLeft.x, ymin: topLeft.y, xmax: bottomRight.x, ymax: bottomRight.y },
+    points: ann.points?.map(p => fromRegion(region, p.x, p.y)),
+    mask
+  };
+};
+
+// Intersection over the smaller box: a box cut off at a tile edge lies almost
+// entirely inside the full detection even though their IoU is low
+const boxIoS = (a: BoundingBox, b: BoundingBox) => {
+  const intersection = boxArea({
+    xmin: Math.max(a.xmin, b.xmin),
+    ymin: Math.max(a.ymin, b.ymin),
+    xmax: Math.min(a.xmax, b.xmax),
+    ymax: Math.min(a.ymax, b.ymax)
+  });
+  const smaller = Math.min(boxArea(a), boxArea(b));
+  return smaller > 0 ? intersection / smaller : 0;
+};
+
+// Greedy merge of overlapping tile results: the most confident detection
+// absorbs same-concept detections mostly inside it, and a plain box grows to
+// cover them so objects split across tiles keep their full extent
+export const mergeTiledDetections = (annotations: Annotation[], iosThreshold = 0.6): Annotation[] => {
+  const kept: Annotation[] = [];
+  [...annotations]
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach(candidate => {
+      const index = kept.findIndex(k => k.conceptId === candidate.conceptId && boxIoS(k.box, candidate.box) >= iosThreshold);
+      if (index === -1) {
+        kept.push(candidate);
+        return;
+      }
+      const absorber = kept[index];
+      if ((absorber.type || 'box') !== 'box') return;
+      kept[index] = {
+        ...absorber,
+        box: {
+          xmin: Math.min(absorber.box.xmin, candidate.box.xmin),
+          ymin: Math.min(absorber.box.ymin, candidate.box.ymin),
+          xmax: Math.max(absorber.box.xmax, candidate.box.xmax),
+          ymax: Math.max(absorber.box.ymax, candidate.box.ymax)
+        }
+      };
+    });
+  return kept;
+};
@@ -0,0 +1,109 @@
+import { BoundingBox } from "../types";
+
+// Template matching for the offline tracker. Frames are downscaled grayscale
+// images; boxes stay normalized 0-1 so results map straight back onto the video.
+
+export interface GrayFrame {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Templates are a fixed grid of samples over the box, so large objects cost the same as small ones
+const TEMPLATE_GRID = 24;
+
+export const toGrayFrame = (pixels: Uint8ClampedArray, width: number, height: number): GrayFrame => {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+  }
+  return { width, height, data };
+};
+
+// Samples the box with its top-left corner shifted by (dx, dy) frame pixels
+const sampleBox = (frame: GrayFrame, box: BoundingBox, dx = 0, dy = 0, out = new Float32Array(TEMPLATE_GRID * TEMPLATE_GRID)): Float32Array => {
+  const left = box.xmin * frame.width + dx;
+  const top = box.ymin * frame.height + dy;
+  const stepX = ((box.xmax - box.xmin) * frame.width) / TEMPLATE_GRID;
+  const stepY = ((box.ymax - box.ymin) * frame.height) / TEMPLATE_GRID;
+
+  for (let j = 0; j < TEMPLATE_GRID; j++) {
+    const y = Math.max(0, Math.min(frame.height - 1, Math.floor(top + (j + 0.5) * stepY)));
+    for (let i = 0; i < TEMPLATE_GRID; i++) {
+      const x = Math.max(0, Math.min(frame.width - 1, Math.floor(left + (i + 0.5) * stepX)));
+      out[j * TEMPLATE_GRID + i] = frame.data[y * frame.width + x];
+    }
+  }
+  return out;
+};
+
+export const sampleTemplate = (frame: GrayFrame, box: BoundingBox): Float32Array => sampleBox(frame, box);
+
+// Zero-mean normalized cross-correlation, clipped to 0-1; flat patches score 0
+const correlate = (a: Float32Array, b: Float32Array): number => {
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < a.length; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= a.length;
+  meanB /= b.length;
+
+  let cross = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cross += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  const denominator = Math.sqrt(varA * varB);
+  return denominator > 0 ? Math.max(0, cross / denominator) : 0;
+};
+
+// Shifts a box without changing its size, keeping it inside the frame
+export const translateBox = (box: BoundingBox, dx: number, dy: number): BoundingBox => {
+  const clampedX = Math.max(-box.xmin, Math.min(1 - box.xmax, dx));
+  const clampedY = Math.max(-box.ymin, Math.min(1 - box.ymax, dy));
+  return { xmin: box.xmin + clampedX, xmax: box.xmax + clampedX, ymin: box.ymin + clampedY, ymax: box.ymax + clampedY };
+};
+
+// Best placement of the template near `box`: a coarse grid search over a window
+// proportional to the box size, then a one-pixel refinement around the winner
+export const matchTemplate = (frame: GrayFrame, template: Float32Array, box: BoundingBox): { box: BoundingBox; score: number } => {
+  const widthPx = (box.xmax - box.xmin) * frame.width;
+  const heightPx = (box.ymax - box.ymin) * frame.height;
+  const radius = Math.max(4, Math.round(Math.max(widthPx, heightPx) * 0.5));
+  const coarse = Math.max(1, Math.round(radius / 10));
+  const patch = new Float32Array(template.length);
+
+  let best = { dx: 0, dy: 0, score: -1 };
+  const search = (fromX: number, toX: number, fromY: number, toY: number, step: number) => {
+    for (let dy = fromY; dy <= toY; dy += step) {
+      for (let dx = fromX; dx <= toX; dx += step) {
+        const score = correlate(template, sampleBox(frame, box, dx, dy, patch));
+        if (score > best.score) best = { dx, dy, score };
+      }
+    }
+  };
+
+  search(-radius, radius, -radius, radius, coarse);
+  if (coarse > 1) {
+    const { dx, dy } = best;
+    search(dx - coarse + 1, dx + coarse - 1, dy - coarse + 1, dy + coarse - 1, 1);
+  }
+
+  return {
+    box: translateBox(box, best.dx / frame.width, best.dy / frame.height),
+    score: Math.max(0, best.score)
+  };
+};
+
+// Lets the template follow gradual appearance changes without drifting onto the background
+export const blendTemplate = (template: Float32Array, frame: GrayFrame, box: BoundingBox, rate = 0.1): Float32Array => {
+  const current = sampleBox(frame, box);
+  return template.map((value, i) => value * (1 - rate) + current[i] * rate);
+};
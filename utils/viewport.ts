@@ -0,0 +1,104 @@
+import { BoundingBox, Point } from "../types";
+
+// The canvas viewport is a zoom factor relative to fit-to-view plus the
+// normalized image point shown at the centre of the view. Zooming resizes the
+// canvas in layout rather than with a CSS scale, so outlines, handles and
+// labels keep their on-screen size at any zoom.
+//
+// The canvas takes the media's aspect ratio, so it is exactly the displayed
+// image: canvas-normalized and image-normalized coordinates are the same.
+
+export interface Viewport {
+  scale: number; // 1 = whole canvas fits the view
+  cx: number; // Normalized image point at the view centre
+  cy: number;
+}
+
+export interface ViewportLayout {
+  left: number; // Canvas position and size in view pixels
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const FIT_VIEWPORT: Viewport = { scale: 1, cx: 0.5, cy: 0.5 };
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 32;
+
+// Used until the media's natural size is known
+export const DEFAULT_ASPECT = 16 / 9;
+const VIEW_PADDING = 32;
+
+export const mediaAspect = (width: number, height: number) => width > 0 && height > 0 ? width / height : DEFAULT_ASPECT;
+
+const clampZoom = (scale: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+
+// Largest canvas of the given aspect inset from the view edges
+export const fitSize = (viewWidth: number, viewHeight: number, aspect: number) => {
+  const width = Math.max(0, Math.min(viewWidth - VIEW_PADDING * 2, (viewHeight - VIEW_PADDING * 2) * aspect));
+  return { width, height: width / aspect };
+};
+
+export const viewportLayout = (viewport: Viewport, viewWidth: number, viewHeight: number, aspect: number): ViewportLayout => {
+  const fit = fitSize(viewWidth, viewHeight, aspect);
+  const width = fit.width * viewport.scale;
+  const height = fit.height * viewport.scale;
+  return {
+    left: viewWidth / 2 - viewport.cx * width,
+    top: viewHeight / 2 - viewport.cy * height,
+    width,
+    height
+  };
+};
+
+// View pixel to normalized image point, unclamped
+export const viewToImage = (layout: ViewportLayout, x: number, y: number): Point => ({
+  x: (x - layout.left) / layout.width,
+  y: (y - layout.top) / layout.height
+});
+
+// Zooms keeping the image point under (x, y) in view pixels fixed
+export const zoomAt = (viewport: Viewport, scale: number, x: number, y: number, viewWidth: number, viewHeight: number, aspect: number): Viewport => {
+  const layout = viewportLayout(viewport, viewWidth, viewHeight, aspect);
+  const anchor = viewToImage(layout, x, y);
+  const next = clampZoom(scale);
+  const fit = fitSize(viewWidth, viewHeight, aspect);
+  const width = fit.width * next;
+  const height = fit.height * next;
+  return {
+    scale: next,
+    cx: (viewWidth / 2 - (x - anchor.x * width)) / width,
+    cy: (viewHeight / 2 - (y - anchor.y * height)) / height
+  };
+};
+
+export const panBy = (viewport: Viewport, dx: number, dy: number, viewWidth: number, viewHeight: number, aspect: number): Viewport => {
+  const layout = viewportLayout(viewport, viewWidth, viewHeight, aspect);
+  if (!layout.width || !layout.height) return viewport;
+  return { ...viewport, cx: viewport.cx - dx / layout.width, cy: viewport.cy - dy / layout.height };
+};
+
+// Frames a box at about 60% of the view; boxes that already fill it leave the view at fit
+export const frameBox = (box: BoundingBox): Viewport => {
+  const size = Math.max(box.xmax - box.xmin, box.ymax - box.ymin, 0.01);
+  const scale = clampZoom(0.6 / size);
+  if (scale <= 1) return FIT_VIEWPORT;
+  return { scale, cx: (box.xmin + box.xmax) / 2, cy: (box.ymin + box.ymax) / 2 };
+};
+
+// Zoom at which one image pixel covers one screen pixel
+export const actualSizeZoom = (imageWidth: number, imageHeight: number, viewWidth: number, viewHeight: number) => {
+  if (!imageWidth || !imageHeight) return 1;
+  const fit = fitSize(viewWidth, viewHeight, imageWidth / imageHeight);
+  return fit.width ? clampZoom(imageWidth / fit.width) : 1;
+};
+
+// Part of the canvas inside the view, in normalized image coordinates
+export const visibleRegion = (viewport: Viewport, viewWidth: number, viewHeight: number, aspect: number): BoundingBox => {
+  const layout = viewportLayout(viewport, viewWidth, viewHeight, aspect);
+  const topLeft = viewToImage(layout, 0, 0);
+  const bottomRight = viewToImage(layout, viewWidth, viewHeight);
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  return { xmin: clamp(topLeft.x), ymin: clamp(topLeft.y), xmax: clamp(bottomRight.x), ymax: clamp(bottomRight.y) };
+};